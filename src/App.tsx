@@ -13,6 +13,7 @@ import Login from "./pages/Login";
 import SignUp from "./pages/SignUp";
 import Dashboard from "./pages/Dashboard";
 import SharedFile from "./pages/SharedFile";
+import SharedCollection from "./pages/SharedCollection";
 import NotFound from "./pages/NotFound";
 import ForgotPassword from "./pages/ForgotPassword";
 
@@ -30,7 +31,8 @@ const App = () => (
             <Route path="/login" element={<Login />} />
             <Route path="/signup" element={<SignUp />} />
             <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route path="/share/:fileId" element={<SharedFile />} />
+            <Route path="/share/:slug" element={<SharedFile />} />
+            <Route path="/s/:collectionId" element={<SharedCollection />} />
             <Route
               path="/dashboard"
               element={
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useAddToCollection, useCollections, useCreateCollection } from "@/hooks/use-collections";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+const NEW_VALUE = "new";
+
+interface AddToCollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileIds: string[];
+  onAdded?: () => void;
+}
+
+export const AddToCollectionDialog = ({ open, onOpenChange, fileIds, onAdded }: AddToCollectionDialogProps) => {
+  const { data: collections = [] } = useCollections();
+  const createCollection = useCreateCollection();
+  const addToCollection = useAddToCollection();
+  const [target, setTarget] = useState<string>(NEW_VALUE);
+  const [name, setName] = useState("");
+  const processing = createCollection.isPending || addToCollection.isPending;
+
+  useEffect(() => {
+    if (open) {
+      setTarget(NEW_VALUE);
+      setName("");
+    }
+  }, [open]);
+
+  const count = fileIds.length;
+
+  const handleConfirm = async () => {
+    try {
+      if (target === NEW_VALUE) {
+        await createCollection.mutateAsync({ name, fileIds });
+        toast.success(`Collection "${name.trim()}" created`);
+      } else {
+        await addToCollection.mutateAsync({ collectionId: target, fileIds });
+        toast.success(`${count} ${count === 1 ? "file" : "files"} added to the collection`);
+      }
+      onAdded?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error adding files to collection:", error);
+      toast.error(`Failed to add the files to the collection. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add to Collection</DialogTitle>
+          <DialogDescription>
+            Recipients of the collection link can download all of its files.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select collection" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_VALUE}>New collection</SelectItem>
+            {collections.map(collection => (
+              <SelectItem key={collection.id} value={collection.id}>
+                {collection.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {target === NEW_VALUE && (
+          <Input
+            placeholder="Collection name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+          />
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={processing || count === 0 || (target === NEW_VALUE && !name.trim())}
+          >
+            {processing ? "Adding..." : "Add"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
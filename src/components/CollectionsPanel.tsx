@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { Collection, getCollectionLink } from "@/services/collectionService";
+import { formatFileSize } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import {
+  CollectionChange,
+  useCollections,
+  useCreateCollection,
+  useDeleteCollection,
+  useRemoveFromCollection,
+  useUpdateCollection,
+} from "@/hooks/use-collections";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { ChevronDown, Clock, Copy, Layers, Lock, MoreVertical, Pencil, Plus, Trash, X } from "lucide-react";
+
+type CollectionDialog = "name" | "expiration" | "password" | null;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+export const CollectionsPanel = () => {
+  const { data: collections = [], isPending } = useCollections();
+  const createCollection = useCreateCollection();
+  const updateCollection = useUpdateCollection();
+  const deleteCollection = useDeleteCollection();
+  const removeFromCollection = useRemoveFromCollection();
+
+  const [dialog, setDialog] = useState<CollectionDialog>(null);
+  // null while creating a new collection, otherwise the collection being edited
+  const [selected, setSelected] = useState<Collection | null>(null);
+  const [name, setName] = useState("");
+  const [newExpiration, setNewExpiration] = useState<string>("never");
+  const [newPassword, setNewPassword] = useState("");
+  const processing = createCollection.isPending || updateCollection.isPending;
+
+  const openDialog = (kind: Exclude<CollectionDialog, null>, collection: Collection | null) => {
+    setSelected(collection);
+    setName(collection?.name ?? "");
+    setNewExpiration("never");
+    setNewPassword("");
+    setDialog(kind);
+  };
+
+  const copyLink = (collection: Collection) => {
+    navigator.clipboard.writeText(getCollectionLink(collection.id)).then(
+      () => toast.success("Link copied to clipboard"),
+      () => toast.error("Failed to copy link")
+    );
+  };
+
+  const applyChange = async (change: CollectionChange, success: string) => {
+    if (!selected) return;
+
+    try {
+      await updateCollection.mutateAsync({ collectionId: selected.id, change });
+      toast.success(success);
+      setDialog(null);
+    } catch (error) {
+      console.error("Error updating collection:", error);
+      toast.error(`Failed to update the collection. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  const handleSaveName = async () => {
+    if (!name.trim()) return;
+
+    if (selected) {
+      await applyChange({ kind: "rename", name }, "Collection renamed");
+      return;
+    }
+
+    try {
+      await createCollection.mutateAsync({ name });
+      toast.success("Collection created. Add files to it from the file list.");
+      setDialog(null);
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      toast.error(`Failed to create the collection. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  const handleDelete = (collection: Collection) => {
+    if (!window.confirm(`Delete the collection "${collection.name}"? Its files are kept; only the link stops working.`)) {
+      return;
+    }
+
+    deleteCollection.mutate(collection.id, {
+      onSuccess: () => toast.success("Collection deleted"),
+      onError: error => {
+        console.error("Error deleting collection:", error);
+        toast.error(`Failed to delete the collection. ${describeFileError(fileErrorReason(error))}`);
+      },
+    });
+  };
+
+  const handleRemoveFile = (collection: Collection, fileId: string) => {
+    removeFromCollection.mutate({ collectionId: collection.id, fileId }, {
+      onError: error => {
+        console.error("Error removing file from collection:", error);
+        toast.error(`Failed to remove the file. ${describeFileError(fileErrorReason(error))}`);
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold">Collections</h2>
+        <Button variant="outline" size="sm" onClick={() => openDialog("name", null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New collection
+        </Button>
+      </div>
+
+      {!isPending && collections.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Select files below and choose "Add to collection" to share them under one link.
+        </p>
+      )}
+
+      {collections.map(collection => (
+        <Collapsible key={collection.id} className="rounded-lg border bg-card">
+          <div className="flex items-center gap-2 p-3">
+            <CollapsibleTrigger asChild>
+              <button type="button" className="group flex min-w-0 flex-1 items-center gap-2 text-left">
+                <Layers className="h-5 w-5 shrink-0 text-primary" />
+                <span className="truncate text-sm font-medium">{collection.name}</span>
+                {collection.passwordProtected && (
+                  <Lock className="h-4 w-4 shrink-0 text-muted-foreground" aria-label="Password protected" />
+                )}
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {collection.files.length} {collection.files.length === 1 ? "file" : "files"}
+                  {collection.expiresAt && ` · expires ${formatDate(collection.expiresAt)}`}
+                </span>
+                <ChevronDown className="ml-auto h-4 w-4 shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+              </button>
+            </CollapsibleTrigger>
+            <Button variant="ghost" size="sm" onClick={() => copyLink(collection)}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy link
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => openDialog("name", collection)}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  <span>Rename</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openDialog("expiration", collection)}>
+                  <Clock className="mr-2 h-4 w-4" />
+                  <span>Change expiration</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openDialog("password", collection)}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  <span>{collection.passwordProtected ? "Change password" : "Set password"}</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="text-destructive focus:text-destructive"
+                  onClick={() => handleDelete(collection)}
+                >
+                  <Trash className="mr-2 h-4 w-4" />
+                  <span>Delete collection</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          <CollapsibleContent>
+            {collection.files.length === 0 ? (
+              <p className="border-t px-3 py-2 text-sm text-muted-foreground">This collection is empty.</p>
+            ) : (
+              <ul className="divide-y border-t text-sm">
+                {collection.files.map(file => (
+                  <li key={file.id} className="flex items-center gap-2 px-3 py-1.5">
+                    <span className="min-w-0 flex-1 truncate">{file.originalName}</span>
+                    <span className="shrink-0 text-muted-foreground">{formatFileSize(file.size)}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleRemoveFile(collection, file.id)}
+                      aria-label={`Remove ${file.originalName} from the collection`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      ))}
+
+      <Dialog open={dialog === "name"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selected ? "Rename Collection" : "New Collection"}</DialogTitle>
+            <DialogDescription>
+              Recipients see this name on the collection page and as the ZIP file name.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveName();
+            }}
+          >
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Collection name"
+            />
+            <DialogFooter className="mt-4">
+              <Button type="button" variant="outline" onClick={() => setDialog(null)} disabled={processing}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={processing || !name.trim()}>
+                {processing ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "expiration"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update Collection Expiration</DialogTitle>
+            <DialogDescription>
+              The collection link stops working after this date. The files' own links are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={newExpiration} onValueChange={setNewExpiration}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select expiration" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never expires</SelectItem>
+              <SelectItem value="1">1 day</SelectItem>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={processing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyChange(
+                { kind: "expiration", expiresIn: newExpiration === "never" ? null : parseInt(newExpiration, 10) },
+                "Expiration date updated"
+              )}
+              disabled={processing}
+            >
+              {processing ? "Updating..." : "Update"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "password"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Collection Password</DialogTitle>
+            <DialogDescription>
+              Recipients must enter this password before they can see the collection.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder={selected?.passwordProtected ? "New password" : "Password"}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+          <DialogFooter>
+            {selected?.passwordProtected && (
+              <Button
+                variant="outline"
+                className="sm:mr-auto"
+                onClick={() => applyChange({ kind: "password", password: null }, "Password removed")}
+                disabled={processing}
+              >
+                Remove password
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={processing}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyChange({ kind: "password", password: newPassword }, "Password updated")}
+              disabled={!newPassword || processing}
+            >
+              {processing ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { BatchAction, BatchItemResult, downloadFilesAsZip, FileMetadata } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { useBatchFiles } from "@/hooks/use-files";
+import { MoveToFolderDialog } from "@/components/MoveToFolderDialog";
+import { AddToCollectionDialog } from "@/components/AddToCollectionDialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Clock, FileArchive, FolderInput, Layers, Trash } from "lucide-react";
+
+const BATCH_LABELS: Record<BatchAction["action"], { done: string; failed: string }> = {
+  trash: { done: "moved to the trash", failed: "could not be moved to the trash" },
+  restore: { done: "restored", failed: "could not be restored" },
+  delete: { done: "deleted", failed: "could not be deleted" },
+  set_expiration: { done: "updated", failed: "could not be updated" },
+  move: { done: "moved", failed: "could not be moved" },
+};
+
+const describeError = (error: BatchItemResult["error"]) =>
+  describeFileError(error === "not_found" ? { kind: "not_found" } : { kind: "unknown" });
+
+interface FileBatchBarProps {
+  files: FileMetadata[];
+  selectedFiles: FileMetadata[];
+  onSelectAll: (selected: boolean) => void;
+  onClearSelection: () => void;
+}
+
+export const FileBatchBar = ({ files, selectedFiles, onSelectAll, onClearSelection }: FileBatchBarProps) => {
+  const batch = useBatchFiles();
+  const [expirationDialogOpen, setExpirationDialogOpen] = useState(false);
+  const [newExpiration, setNewExpiration] = useState<string>("never");
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false);
+  const [collectionDialogOpen, setCollectionDialogOpen] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  // Failed items of the last batch, shown until dismissed
+  const [failures, setFailures] = useState<{ file: string; reason: string }[]>([]);
+
+  const count = selectedFiles.length;
+  const allSelected = files.length > 0 && count === files.length;
+  const busy = batch.isPending || zipping;
+
+  const runBatch = async (action: BatchAction) => {
+    const fileIds = selectedFiles.map(file => file.id);
+    const names = new Map(selectedFiles.map(file => [file.id, file.originalName]));
+    const labels = BATCH_LABELS[action.action];
+
+    try {
+      const results = await batch.mutateAsync({ fileIds, batch: action });
+      const failed = results.filter(result => !result.ok);
+      const succeeded = results.length - failed.length;
+
+      if (succeeded > 0) {
+        const restorable = action.action === "trash"
+          ? results.filter(result => result.ok).map(result => result.id)
+          : [];
+        toast.success(`${succeeded} ${succeeded === 1 ? "file" : "files"} ${labels.done}`, {
+          action: restorable.length > 0
+            ? { label: "Undo", onClick: () => handleUndoTrash(restorable) }
+            : undefined,
+        });
+      }
+      if (failed.length > 0) {
+        toast.error(`${failed.length} ${failed.length === 1 ? "file" : "files"} ${labels.failed}`);
+        setFailures(failed.map(result => ({
+          file: names.get(result.id) ?? result.id,
+          reason: describeError(result.error),
+        })));
+      }
+      onClearSelection();
+    } catch (error) {
+      console.error("Error running batch action:", error);
+      toast.error(`The batch action failed. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  const handleUndoTrash = async (fileIds: string[]) => {
+    try {
+      const results = await batch.mutateAsync({ fileIds, batch: { action: "restore" } });
+      const failed = results.filter(result => !result.ok).length;
+      if (failed > 0) {
+        toast.error(`${failed} ${failed === 1 ? "file" : "files"} ${BATCH_LABELS.restore.failed}`);
+      }
+    } catch (error) {
+      console.error("Error restoring files:", error);
+      toast.error(`Failed to restore the files. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  // Nothing is lost here: the files can be restored from the trash.
+  const handleTrash = () => runBatch({ action: "trash" });
+
+  const handleUpdateExpiration = async () => {
+    await runBatch({
+      action: "set_expiration",
+      expiresIn: newExpiration === "never" ? null : parseInt(newExpiration, 10),
+    });
+    setExpirationDialogOpen(false);
+  };
+
+  const handleMove = async (folderId: string | null) => {
+    await runBatch({ action: "move", folderId });
+    setMoveDialogOpen(false);
+  };
+
+  const handleDownloadZip = async () => {
+    setZipping(true);
+    try {
+      await downloadFilesAsZip(selectedFiles.map(file => file.id));
+    } catch (error) {
+      console.error("Error downloading zip:", error);
+      toast.error(`Failed to build the ZIP archive. ${describeFileError(fileErrorReason(error))}`);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  // Offer the folder all selected files share, if any, as the starting point
+  const commonFolderId = selectedFiles.every(file => file.folderId === selectedFiles[0]?.folderId)
+    ? selectedFiles[0]?.folderId ?? null
+    : null;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-card px-4 py-2">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={allSelected ? true : count > 0 ? "indeterminate" : false}
+            onCheckedChange={() => onSelectAll(!allSelected)}
+            aria-label="Select all files"
+          />
+          {count > 0 ? `${count} selected` : "Select all"}
+        </label>
+
+        {count > 0 && (
+          <div className="ml-auto flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleDownloadZip} disabled={busy}>
+              <FileArchive className="mr-2 h-4 w-4" />
+              {zipping ? "Preparing..." : "Download ZIP"}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setExpirationDialogOpen(true)} disabled={busy}>
+              <Clock className="mr-2 h-4 w-4" />
+              Expiration
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMoveDialogOpen(true)} disabled={busy}>
+              <FolderInput className="mr-2 h-4 w-4" />
+              Move
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCollectionDialogOpen(true)} disabled={busy}>
+              <Layers className="mr-2 h-4 w-4" />
+              Add to collection
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleTrash} disabled={busy}>
+              <Trash className="mr-2 h-4 w-4" />
+              Move to trash
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClearSelection} disabled={busy}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={expirationDialogOpen} onOpenChange={setExpirationDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update Link Expiration</DialogTitle>
+            <DialogDescription>
+              Applies to all {count} selected {count === 1 ? "file" : "files"}.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={newExpiration} onValueChange={setNewExpiration}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select expiration" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never expires</SelectItem>
+              <SelectItem value="1">1 day</SelectItem>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="90">90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExpirationDialogOpen(false)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button onClick={handleUpdateExpiration} disabled={busy}>
+              {batch.isPending ? "Updating..." : "Update"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <MoveToFolderDialog
+        open={moveDialogOpen}
+        onOpenChange={setMoveDialogOpen}
+        title={`Move ${count} ${count === 1 ? "file" : "files"}`}
+        currentFolderId={commonFolderId}
+        processing={batch.isPending}
+        onConfirm={handleMove}
+      />
+
+      <AddToCollectionDialog
+        open={collectionDialogOpen}
+        onOpenChange={setCollectionDialogOpen}
+        fileIds={selectedFiles.map(file => file.id)}
+        onAdded={onClearSelection}
+      />
+
+      <Dialog open={failures.length > 0} onOpenChange={(open) => !open && setFailures([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Some files were not processed</DialogTitle>
+            <DialogDescription>
+              The rest of the batch went through.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-64 space-y-1 overflow-auto text-sm">
+            {failures.map(({ file, reason }, index) => (
+              <li key={index} className="flex justify-between gap-4">
+                <span className="truncate">{file}</span>
+                <span className="shrink-0 text-muted-foreground">{reason}</span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setFailures([])}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
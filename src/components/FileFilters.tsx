@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_FILE_QUERY,
+  EXPIRY_FILTERS,
+  ExpiryFilter,
+  FILE_TYPE_FILTERS,
+  FileQuery,
+  FileSortField,
+  FileTypeFilter,
+  SORT_OPTIONS,
+  SortOrder,
+} from "@/lib/fileQuery";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, SlidersHorizontal, X } from "lucide-react";
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MB = 1024 * 1024;
+
+const toMegabytes = (bytes: number | null) => (bytes === null ? "" : String(bytes / MB));
+
+const fromMegabytes = (value: string) => {
+  const megabytes = parseFloat(value);
+  return Number.isFinite(megabytes) && megabytes >= 0 ? Math.round(megabytes * MB) : null;
+};
+
+interface FileFiltersProps {
+  query: FileQuery;
+  onChange: (query: FileQuery) => void;
+}
+
+export const FileFilters = ({ query, onChange }: FileFiltersProps) => {
+  const [search, setSearch] = useState(query.search);
+  // Sizes are committed on blur so partial input like "1." is not reformatted mid-typing
+  const [minSize, setMinSize] = useState(toMegabytes(query.minSize));
+  const [maxSize, setMaxSize] = useState(toMegabytes(query.maxSize));
+
+  // Follow the URL when it changes from outside, e.g. back/forward navigation
+  useEffect(() => {
+    setSearch(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    setMinSize(toMegabytes(query.minSize));
+    setMaxSize(toMegabytes(query.maxSize));
+  }, [query.minSize, query.maxSize]);
+
+  useEffect(() => {
+    if (search === query.search) return;
+    const timeout = setTimeout(() => onChange({ ...query, search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, query, onChange]);
+
+  const rangeFilterCount = [query.minSize, query.maxSize, query.uploadedFrom, query.uploadedTo]
+    .filter(value => value !== null).length;
+
+  const isDefault = JSON.stringify({ ...query, search }) === JSON.stringify(DEFAULT_FILE_QUERY);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative min-w-[12rem] flex-1">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search all files by name"
+          className="pl-8"
+        />
+      </div>
+
+      <Select
+        value={query.type}
+        onValueChange={(value) => onChange({ ...query, type: value as FileTypeFilter })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FILE_TYPE_FILTERS.map(filter => (
+            <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={query.expiry}
+        onValueChange={(value) => onChange({ ...query, expiry: value as ExpiryFilter })}
+      >
+        <SelectTrigger className="w-52">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EXPIRY_FILTERS.map(filter => (
+            <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline">
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            More filters{rangeFilterCount > 0 && ` (${rangeFilterCount})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-4" align="end">
+          <div className="space-y-2">
+            <Label>Size (MB)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Min"
+                value={minSize}
+                onChange={(e) => setMinSize(e.target.value)}
+                onBlur={() => onChange({ ...query, minSize: fromMegabytes(minSize) })}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                placeholder="Max"
+                value={maxSize}
+                onChange={(e) => setMaxSize(e.target.value)}
+                onBlur={() => onChange({ ...query, maxSize: fromMegabytes(maxSize) })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Uploaded between</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={query.uploadedFrom ?? ""}
+                max={query.uploadedTo ?? undefined}
+                onChange={(e) => onChange({ ...query, uploadedFrom: e.target.value || null })}
+              />
+              <span className="text-muted-foreground">–</span>
+              <Input
+                type="date"
+                value={query.uploadedTo ?? ""}
+                min={query.uploadedFrom ?? undefined}
+                onChange={(e) => onChange({ ...query, uploadedTo: e.target.value || null })}
+              />
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Select
+        value={`${query.sort}-${query.order}`}
+        onValueChange={(value) => {
+          const [sort, order] = value.split("-") as [FileSortField, SortOrder];
+          onChange({ ...query, sort, order });
+        }}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!isDefault && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setSearch("");
+            onChange(DEFAULT_FILE_QUERY);
+          }}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,28 @@
 
-import { useState } from "react";
-import { FileMetadata, formatFileSize, deleteFile, updateFileExpiration } from "@/services/fileService";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  FileMetadata,
+  formatFileSize,
+  moveFile,
+  updateDownloadLimit,
+  setSharePassword,
+  setCustomShareSlug,
+  regenerateShareLink,
+  revokeShareLink,
+  getShareLink,
+  getDownloadUrl,
+  getThumbnailUrls,
+  THUMBNAIL_URL_TTL_SECONDS
+} from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { MoveToFolderDialog } from "@/components/MoveToFolderDialog";
+import { FileStatsPanel } from "@/components/FileStatsPanel";
+import { FileBatchBar } from "@/components/FileBatchBar";
+import { ShareLinkHistory } from "@/components/ShareLinkHistory";
+import { FileVersionHistory } from "@/components/FileVersionHistory";
 import { Button } from "@/components/ui/button";
 import { 
   Card, 
@@ -10,6 +32,10 @@ import {
   CardHeader, 
   CardTitle 
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   DropdownMenu,
@@ -32,26 +58,179 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { DOWNLOAD_LIMIT_OPTIONS, UNLIMITED_DOWNLOADS, parseDownloadLimit } from "@/lib/shareOptions";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
-import { Copy, Download, MoreVertical, Trash, Clock, Link as LinkIcon, FileIcon } from "lucide-react";
+import {
+  fileKeys,
+  useRestoreFile,
+  useTrashFile,
+  useUpdateCachedFile,
+  useUpdateExpiration,
+  useUploadFileVersion
+} from "@/hooks/use-files";
+import { Copy, Download, MoreVertical, Trash, Clock, Link as LinkIcon, FileIcon, FolderInput, Lock, Hash, BarChart3, PenLine, RefreshCw, Link2Off, History, Upload, Layers } from "lucide-react";
+
+const isExpired = (file: FileMetadata) =>
+  file.expiresAt !== null && file.expiresAt.getTime() <= Date.now();
+
+const isLimitReached = (file: FileMetadata) =>
+  file.maxDownloads !== null && file.downloadCount >= file.maxDownloads;
+
+// Thumbnail URLs are signed again this long before they expire
+const THUMBNAIL_RENEW_MARGIN_MS = 5 * 60 * 1000;
+const THUMBNAIL_RENEW_AFTER_MS = THUMBNAIL_URL_TTL_SECONDS * 1000 - THUMBNAIL_RENEW_MARGIN_MS;
 
 interface FileListProps {
   files: FileMetadata[];
   loading: boolean;
-  onFileDeleted: (fileId: string) => void;
-  onFileUpdated: (file: FileMetadata) => void;
+  // True when the list shows search or filter results rather than a folder
+  filtered?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileListProps) => {
+export const FileList = ({
+  files,
+  loading,
+  filtered = false,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+}: FileListProps) => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const trashFileMutation = useTrashFile();
+  const restoreFileMutation = useRestoreFile();
+  const updateExpirationMutation = useUpdateExpiration();
+  const uploadVersionMutation = useUploadFileVersion();
+  const onFileUpdated = useUpdateCachedFile();
   const [expirationDialogOpen, setExpirationDialogOpen] = useState(false);
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false);
+  const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [limitDialogOpen, setLimitDialogOpen] = useState(false);
+  const [newDownloadLimit, setNewDownloadLimit] = useState<string>(UNLIMITED_DOWNLOADS);
+  const [slugDialogOpen, setSlugDialogOpen] = useState(false);
+  const [newSlug, setNewSlug] = useState("");
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [versionsDialogOpen, setVersionsDialogOpen] = useState(false);
+  // The file "Upload new version" was picked for, and progress per file
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const versionTarget = useRef<FileMetadata | null>(null);
+  const [versionProgress, setVersionProgress] = useState<Record<string, number>>({});
+  // Signed URLs by thumbnail path, and when each path was last signed
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const thumbnailsSignedAt = useRef(new Map<string, number>());
+  // Ticks so URLs about to expire get signed again
+  const [thumbnailClock, setThumbnailClock] = useState(0);
+
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Anchor for shift-click ranges
+  const lastToggledIndex = useRef<number | null>(null);
+
+  // Ids of files that have left the list (deleted, moved, filtered out) drop out here
+  const selectedFiles = files.filter(file => selectedIds.has(file.id));
+
+  const toggleSelection = (index: number, extendRange: boolean) => {
+    const select = !selectedIds.has(files[index].id);
+    const anchor = lastToggledIndex.current;
+    const range = extendRange && anchor !== null && anchor < files.length
+      ? files.slice(Math.min(anchor, index), Math.max(anchor, index) + 1)
+      : [files[index]];
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      range.forEach(file => (select ? next.add(file.id) : next.delete(file.id)));
+      return next;
+    });
+    lastToggledIndex.current = index;
+  };
+
+  const selectAll = (selected: boolean) => {
+    setSelectedIds(selected ? new Set(files.map(file => file.id)) : new Set());
+    lastToggledIndex.current = null;
+  };
+
+  // Only sign thumbnails that are new, e.g. a freshly loaded page or a new
+  // version, or whose URL is about to expire
+  useEffect(() => {
+    const now = Date.now();
+    const paths = [...new Set(files.map(file => file.thumbnailPath).filter(Boolean))].filter(path => {
+      const signedAt = thumbnailsSignedAt.current.get(path);
+      return signedAt === undefined || now - signedAt >= THUMBNAIL_RENEW_AFTER_MS;
+    });
+    if (paths.length === 0) return;
+
+    paths.forEach(path => thumbnailsSignedAt.current.set(path, now));
+    getThumbnailUrls(paths)
+      .then(urls => setThumbnailUrls(prev => ({ ...prev, ...urls })))
+      .catch(error => {
+        console.error("Error loading thumbnails:", error);
+        // Try again on the next change or tick
+        paths.forEach(path => thumbnailsSignedAt.current.delete(path));
+      });
+  }, [files, thumbnailClock]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setThumbnailClock(tick => tick + 1), THUMBNAIL_RENEW_MARGIN_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
   const [selectedFile, setSelectedFile] = useState<FileMetadata | null>(null);
   const [newExpiration, setNewExpiration] = useState<string>("never");
   const [processingFileId, setProcessingFileId] = useState<string | null>(null);
 
-  const copyLinkToClipboard = (shareUrl: string) => {
-    navigator.clipboard.writeText(shareUrl).then(
+  // Says why a file action failed and offers the way out. `retry` repeats the
+  // action after a dropped connection.
+  const reportError = (error: unknown, failure: string, retry?: () => void) => {
+    console.error(`${failure}:`, error);
+    const reason = fileErrorReason(error);
+    const message = `${failure}. ${describeFileError(reason)}`;
+
+    switch (reason.kind) {
+      case "not_found":
+      case "conflict":
+        // Deleted or changed elsewhere; show the current state
+        toast.error(message);
+        queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) });
+        return;
+      case "forbidden":
+        toast.error(message, { action: { label: "Sign in", onClick: () => navigate("/login") } });
+        return;
+      case "network":
+        toast.error(message, retry ? { action: { label: "Retry", onClick: retry } } : undefined);
+        return;
+      case "quota_exceeded":
+        toast.error(message, { action: { label: "Open trash", onClick: () => navigate("/dashboard?view=trash") } });
+        return;
+      default:
+        toast.error(message);
+    }
+  };
+
+  const copyLinkToClipboard = (file: FileMetadata) => {
+    if (!file.shareSlug) {
+      toast.error("This file has no active share link");
+      return;
+    }
+
+    navigator.clipboard.writeText(getShareLink(file.shareSlug)).then(
       () => {
         toast.success("Link copied to clipboard");
       },
@@ -61,29 +240,30 @@ export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileL
     );
   };
 
-  const handleDeleteFile = async (fileId: string) => {
+  const handleRestoreFile = (fileId: string) => {
+    restoreFileMutation.mutate(fileId, {
+      onSuccess: () => toast.success("File restored"),
+      onError: error => reportError(error, "Failed to restore file", () => handleRestoreFile(fileId)),
+    });
+  };
+
+  const handleTrashFile = (fileId: string) => {
     if (!user) return;
-    
-    if (!window.confirm("Are you sure you want to delete this file? This action cannot be undone.")) {
-      return;
-    }
-    
-    setProcessingFileId(fileId);
-    
+
+    // The card disappears right away and comes back if the move fails
+    trashFileMutation.mutate(fileId, {
+      onSuccess: () => toast.success("File moved to the trash", {
+        action: { label: "Undo", onClick: () => handleRestoreFile(fileId) },
+      }),
+      onError: error => reportError(error, "Failed to move file to the trash", () => handleTrashFile(fileId)),
+    });
+  };
+
+  const handleDownloadFile = async (file: FileMetadata) => {
     try {
-      const success = await deleteFile(fileId, user.id);
-      
-      if (success) {
-        toast.success("File deleted successfully");
-        onFileDeleted(fileId);
-      } else {
-        toast.error("Failed to delete file");
-      }
+      window.location.href = await getDownloadUrl(file);
     } catch (error) {
-      console.error("Error deleting file:", error);
-      toast.error("An error occurred while deleting the file");
-    } finally {
-      setProcessingFileId(null);
+      reportError(error, "Failed to start the download", () => handleDownloadFile(file));
     }
   };
 
@@ -104,35 +284,205 @@ export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileL
     setExpirationDialogOpen(true);
   };
 
-  const handleUpdateExpiration = async () => {
+  const handleUpdateExpiration = () => {
     if (!selectedFile || !user) return;
-    
+
+    // Convert newExpiration to days or null
+    let expirationDays: number | null = null;
+    if (newExpiration !== "never") {
+      expirationDays = parseInt(newExpiration, 10);
+    }
+
+    // Shown optimistically; rolled back if the update fails
+    const variables = { fileId: selectedFile.id, expiresIn: expirationDays };
+    const update = () => updateExpirationMutation.mutate(variables, {
+      onSuccess: () => toast.success("Expiration date updated"),
+      onError: error => reportError(error, "Failed to update expiration date", update),
+    });
+    update();
+    setExpirationDialogOpen(false);
+  };
+
+  const openMoveDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setMoveDialogOpen(true);
+  };
+
+  const handleMoveFile = async (folderId: string | null) => {
+    if (!selectedFile || !user) return;
+
     setProcessingFileId(selectedFile.id);
-    
+
     try {
-      // Convert newExpiration to days or null
-      let expirationDays: number | null = null;
-      if (newExpiration !== "never") {
-        expirationDays = parseInt(newExpiration, 10);
-      }
-      
-      const updatedFile = await updateFileExpiration(selectedFile.id, user.id, expirationDays);
-      
-      if (updatedFile) {
-        toast.success("Expiration date updated");
-        onFileUpdated(updatedFile);
-      } else {
-        toast.error("Failed to update expiration date");
+      const movedFile = await moveFile(selectedFile.id, user.id, folderId);
+      toast.success("File moved");
+      onFileUpdated(movedFile);
+    } catch (error) {
+      reportError(error, "Failed to move file");
+    } finally {
+      setProcessingFileId(null);
+      setMoveDialogOpen(false);
+    }
+  };
+
+  const openLimitDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setNewDownloadLimit(file.maxDownloads === null ? UNLIMITED_DOWNLOADS : String(file.maxDownloads));
+    setLimitDialogOpen(true);
+  };
+
+  const handleUpdateDownloadLimit = async () => {
+    if (!selectedFile || !user) return;
+
+    setProcessingFileId(selectedFile.id);
+
+    try {
+      const updatedFile = await updateDownloadLimit(
+        selectedFile.id,
+        user.id,
+        parseDownloadLimit(newDownloadLimit)
+      );
+      toast.success("Download limit updated");
+      onFileUpdated(updatedFile);
+    } catch (error) {
+      reportError(error, "Failed to update download limit");
+    } finally {
+      setProcessingFileId(null);
+      setLimitDialogOpen(false);
+    }
+  };
+
+  const openPasswordDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setNewPassword("");
+    setPasswordDialogOpen(true);
+  };
+
+  const handleUpdatePassword = async (password: string | null) => {
+    if (!selectedFile || !user) return;
+
+    setProcessingFileId(selectedFile.id);
+
+    try {
+      await setSharePassword(selectedFile.id, password);
+      toast.success(password ? "Password updated" : "Password removed");
+      onFileUpdated({ ...selectedFile, passwordProtected: !!password });
+    } catch (error) {
+      reportError(error, "Failed to update password");
+    } finally {
+      setProcessingFileId(null);
+      setPasswordDialogOpen(false);
+      setNewPassword("");
+    }
+  };
+
+  const openSlugDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setNewSlug(file.shareSlug ?? "");
+    setSlugDialogOpen(true);
+  };
+
+  const handleUpdateSlug = async () => {
+    if (!selectedFile) return;
+
+    setProcessingFileId(selectedFile.id);
+
+    try {
+      const shareSlug = await setCustomShareSlug(selectedFile.id, newSlug.trim());
+      onFileUpdated({ ...selectedFile, shareSlug });
+      toast.success("Share link updated");
+      setSlugDialogOpen(false);
+    } catch (error) {
+      // The dialog stays open so the slug can be corrected
+      switch (fileErrorReason(error).kind) {
+        case "conflict":
+          toast.error(`The link "${newSlug.trim()}" is already taken`);
+          break;
+        case "invalid":
+          toast.error("Links may only contain lowercase letters, digits and hyphens");
+          break;
+        default:
+          reportError(error, "Failed to update the share link");
       }
+    } finally {
+      setProcessingFileId(null);
+    }
+  };
+
+  const handleRegenerateLink = async (file: FileMetadata) => {
+    const message = file.shareSlug
+      ? "Generate a new link? The current link stops working immediately."
+      : "Generate a new link for this file?";
+    if (!window.confirm(message)) return;
+
+    setProcessingFileId(file.id);
+
+    try {
+      const shareSlug = await regenerateShareLink(file.id);
+      onFileUpdated({ ...file, shareSlug });
+      toast.success("New link generated");
+    } catch (error) {
+      reportError(error, "Failed to generate a new link");
+    } finally {
+      setProcessingFileId(null);
+    }
+  };
+
+  const handleRevokeLink = async (file: FileMetadata) => {
+    if (!window.confirm("Revoke the share link? Anyone using it loses access immediately.")) return;
+
+    setProcessingFileId(file.id);
+
+    try {
+      await revokeShareLink(file.id);
+      onFileUpdated({ ...file, shareSlug: null });
+      toast.success("Link revoked");
     } catch (error) {
-      console.error("Error updating file expiration:", error);
-      toast.error("An error occurred while updating the expiration date");
+      reportError(error, "Failed to revoke the link");
     } finally {
       setProcessingFileId(null);
-      setExpirationDialogOpen(false);
     }
   };
 
+  const openHistoryDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setHistoryDialogOpen(true);
+  };
+
+  const openVersionsDialog = (file: FileMetadata) => {
+    setSelectedFile(file);
+    setVersionsDialogOpen(true);
+  };
+
+  const chooseNewVersion = (file: FileMetadata) => {
+    versionTarget.current = file;
+    versionInputRef.current?.click();
+  };
+
+  const handleUploadVersion = (file: FileMetadata, upload: File) => {
+    setVersionProgress(prev => ({ ...prev, [file.id]: 0 }));
+    uploadVersionMutation.mutate({
+      fileId: file.id,
+      file: upload,
+      options: {
+        onProgress: ({ loaded, total }) =>
+          setVersionProgress(prev => ({ ...prev, [file.id]: total > 0 ? Math.round((loaded / total) * 100) : 0 })),
+      },
+    }, {
+      onSuccess: updated => toast.success(`Version ${updated.version} uploaded. The share link stays the same.`),
+      onError: error => reportError(error, "Failed to upload the new version", () => handleUploadVersion(file, upload)),
+      onSettled: () => setVersionProgress(({ [file.id]: _done, ...rest }) => rest),
+    });
+  };
+
+  const handleVersionFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = e.target.files?.[0];
+    const file = versionTarget.current;
+    // Lets the same file be picked again later
+    e.target.value = "";
+    if (upload && file) handleUploadVersion(file, upload);
+  };
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -157,12 +507,23 @@ export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileL
     );
   }
 
+  if (files.length === 0 && filtered) {
+    return (
+      <Card className="text-center p-8">
+        <CardTitle className="mb-2">No matching files</CardTitle>
+        <CardDescription className="mb-4">
+          Try a different search or clear some filters.
+        </CardDescription>
+      </Card>
+    );
+  }
+
   if (files.length === 0) {
     return (
       <Card className="text-center p-8">
-        <CardTitle className="mb-2">No files yet</CardTitle>
+        <CardTitle className="mb-2">No files here yet</CardTitle>
         <CardDescription className="mb-4">
-          Upload your first file using the upload form above.
+          Upload a file into this folder using the upload form above.
         </CardDescription>
       </Card>
     );
@@ -176,97 +537,211 @@ export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileL
     });
   };
 
-  const isImageFile = (fileType: string) => {
-    return fileType.startsWith('image/');
-  };
-
   return (
     <>
       <div className="space-y-4">
-        {files.map((file) => (
-          <Card key={file.id} className="link-card overflow-hidden">
-            <CardHeader className="pb-3">
-              <div className="flex justify-between items-start">
-                <div className="space-y-1 flex-1">
-                  <CardTitle className="truncate pr-8">{file.originalName}</CardTitle>
-                  <CardDescription>
-                    Uploaded on {formatDate(file.uploadDate)}
-                  </CardDescription>
-                </div>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                      <MoreVertical className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => copyLinkToClipboard(file.shareUrl)}>
-                      <Copy className="mr-2 h-4 w-4" />
-                      <span>Copy link</span>
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => openExpirationDialog(file)}>
-                      <Clock className="mr-2 h-4 w-4" />
-                      <span>Edit expiration</span>
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      className="text-destructive focus:text-destructive"
-                      onClick={() => handleDeleteFile(file.id)}
-                      disabled={processingFileId === file.id}
-                    >
-                      <Trash className="mr-2 h-4 w-4" />
-                      <span>Delete file</span>
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-col gap-4">
-                {isImageFile(file.fileType) && (
-                  <div className="relative w-full aspect-video rounded-lg overflow-hidden bg-muted">
-                    <img 
-                      src={file.shareUrl} 
-                      alt={file.originalName}
-                      className="object-contain w-full h-full"
-                      loading="lazy"
-                    />
-                  </div>
-                )}
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="text-sm">
-                    <span className="text-muted-foreground">Size: </span>
-                    <span>{formatFileSize(file.size)}</span>
+        <FileBatchBar
+          files={files}
+          selectedFiles={selectedFiles}
+          onSelectAll={selectAll}
+          onClearSelection={() => selectAll(false)}
+        />
+        {files.map((file, index) => (
+          <Collapsible key={file.id} asChild>
+            <Card className={`link-card overflow-hidden ${selectedIds.has(file.id) ? "ring-2 ring-primary" : ""}`}>
+              <CardHeader className="pb-3">
+                <div className="flex justify-between items-start gap-3">
+                  <Checkbox
+                    className="mt-1.5"
+                    checked={selectedIds.has(file.id)}
+                    onClick={(e) => toggleSelection(index, e.shiftKey)}
+                    aria-label={`Select ${file.originalName}`}
+                  />
+                  <div className="space-y-1 flex-1 min-w-0">
+                    <CardTitle className="truncate pr-8 flex items-center gap-2">
+                      {file.passwordProtected && (
+                        <Lock className="h-4 w-4 shrink-0 text-muted-foreground" aria-label="Password protected" />
+                      )}
+                      <span className="truncate">{file.originalName}</span>
+                    </CardTitle>
+                    <CardDescription>
+                      Uploaded on {formatDate(file.uploadDate)}
+                    </CardDescription>
                   </div>
-                  <div className="text-sm">
-                    <span className="text-muted-foreground">Expires: </span>
-                    <span>
-                      {file.expiresAt
-                        ? formatDate(file.expiresAt)
-                        : "Never"}
-                    </span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => copyLinkToClipboard(file)}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        <span>Copy link</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openSlugDialog(file)}>
+                        <PenLine className="mr-2 h-4 w-4" />
+                        <span>Custom link</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleRegenerateLink(file)}
+                        disabled={processingFileId === file.id}
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        <span>Regenerate link</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleRevokeLink(file)}
+                        disabled={!file.shareSlug || processingFileId === file.id}
+                      >
+                        <Link2Off className="mr-2 h-4 w-4" />
+                        <span>Revoke link</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openHistoryDialog(file)}>
+                        <History className="mr-2 h-4 w-4" />
+                        <span>Link history</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => chooseNewVersion(file)}
+                        disabled={file.id in versionProgress}
+                      >
+                        <Upload className="mr-2 h-4 w-4" />
+                        <span>Upload new version</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openVersionsDialog(file)}>
+                        <Layers className="mr-2 h-4 w-4" />
+                        <span>Version history</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openExpirationDialog(file)}>
+                        <Clock className="mr-2 h-4 w-4" />
+                        <span>Edit expiration</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openLimitDialog(file)}>
+                        <Hash className="mr-2 h-4 w-4" />
+                        <span>Download limit</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openPasswordDialog(file)}>
+                        <Lock className="mr-2 h-4 w-4" />
+                        <span>{file.passwordProtected ? "Change password" : "Set password"}</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => openMoveDialog(file)}>
+                        <FolderInput className="mr-2 h-4 w-4" />
+                        <span>Move to folder</span>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-destructive focus:text-destructive"
+                        onClick={() => handleTrashFile(file.id)}
+                        disabled={processingFileId === file.id}
+                      >
+                        <Trash className="mr-2 h-4 w-4" />
+                        <span>Move to trash</span>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col gap-4">
+                  {file.thumbnailPath && thumbnailUrls[file.thumbnailPath] && (
+                    <div className="relative w-full aspect-video rounded-lg overflow-hidden bg-muted">
+                      <img 
+                        src={thumbnailUrls[file.thumbnailPath]}
+                        alt={file.originalName}
+                        className="object-contain w-full h-full"
+                        loading="lazy"
+                      />
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Size: </span>
+                      <span>{formatFileSize(file.size)}</span>
+                    </div>
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Downloads: </span>
+                      <span className={isLimitReached(file) ? "text-destructive" : undefined}>
+                        {file.maxDownloads === null
+                          ? `${file.downloadCount}`
+                          : `${file.downloadCount} of ${file.maxDownloads} used`}
+                      </span>
+                    </div>
+                    <div className="text-sm">
+                      {isExpired(file) ? (
+                        <>
+                          <span className="text-muted-foreground">Expired: </span>
+                          <span className="text-destructive">{formatDate(file.expiresAt)}</span>
+                        </>
+                      ) : (
+                        <>
+                          <span className="text-muted-foreground">Expires: </span>
+                          <span>
+                            {file.expiresAt
+                              ? formatDate(file.expiresAt)
+                              : "Never"}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                    {!file.shareSlug && (
+                      <div className="text-sm">
+                        <span className="text-muted-foreground">Share link: </span>
+                        <span className="text-destructive">Revoked</span>
+                      </div>
+                    )}
+                    {file.version > 1 && (
+                      <div className="text-sm">
+                        <span className="text-muted-foreground">Version: </span>
+                        <button type="button" className="underline-offset-4 hover:underline" onClick={() => openVersionsDialog(file)}>
+                          {file.version}
+                        </button>
+                      </div>
+                    )}
                   </div>
+                  {file.id in versionProgress && (
+                    <div className="space-y-1">
+                      <p className="text-xs text-muted-foreground">Uploading new version... {versionProgress[file.id]}%</p>
+                      <Progress value={versionProgress[file.id]} className="h-2" />
+                    </div>
+                  )}
                 </div>
-              </div>
-            </CardContent>
-            <CardFooter className="flex flex-wrap gap-2">
-              <Button 
-                variant="outline" 
-                size="sm" 
-                className="flex-1"
-                onClick={() => copyLinkToClipboard(file.shareUrl)}
-              >
-                <LinkIcon className="mr-2 h-4 w-4" /> Copy Link
-              </Button>
-              <Button 
-                size="sm" 
-                className="flex-1"
-                onClick={() => window.open(file.shareUrl, '_blank')}
-              >
-                <Download className="mr-2 h-4 w-4" /> Download
-              </Button>
-            </CardFooter>
-          </Card>
+                <CollapsibleContent className="mt-4 border-t pt-4">
+                  <FileStatsPanel fileId={file.id} />
+                </CollapsibleContent>
+              </CardContent>
+              <CardFooter className="flex flex-wrap gap-2">
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="flex-1"
+                  onClick={() => copyLinkToClipboard(file)}
+                  disabled={!file.shareSlug}
+                >
+                  <LinkIcon className="mr-2 h-4 w-4" /> Copy Link
+                </Button>
+                <Button 
+                  size="sm" 
+                  className="flex-1"
+                  onClick={() => handleDownloadFile(file)}
+                >
+                  <Download className="mr-2 h-4 w-4" /> Download
+                </Button>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" title="Show statistics">
+                    <BarChart3 className="h-4 w-4" />
+                  </Button>
+                </CollapsibleTrigger>
+              </CardFooter>
+            </Card>
+          </Collapsible>
         ))}
+        <input type="file" className="hidden" ref={versionInputRef} onChange={handleVersionFileChange} />
+        {hasMore && (
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            <Button variant="outline" onClick={onLoadMore} disabled={loadingMore}>
+              {loadingMore ? "Loading more files..." : "Load more"}
+            </Button>
+          </div>
+        )}
       </div>
 
       <Dialog open={expirationDialogOpen} onOpenChange={setExpirationDialogOpen}>
@@ -306,6 +781,179 @@ export const FileList = ({ files, loading, onFileDeleted, onFileUpdated }: FileL
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={limitDialogOpen} onOpenChange={setLimitDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Download Limit</DialogTitle>
+            <DialogDescription>
+              The link stops working once this many downloads have been made.
+              {selectedFile && selectedFile.downloadCount > 0 &&
+                ` ${selectedFile.downloadCount} ${selectedFile.downloadCount === 1 ? "download has" : "downloads have"} been made so far.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={newDownloadLimit} onValueChange={setNewDownloadLimit}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select download limit" />
+            </SelectTrigger>
+            <SelectContent>
+              {DOWNLOAD_LIMIT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setLimitDialogOpen(false)}
+              disabled={processingFileId === selectedFile?.id}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUpdateDownloadLimit}
+              disabled={processingFileId === selectedFile?.id}
+            >
+              {processingFileId === selectedFile?.id ? "Updating..." : "Update"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={passwordDialogOpen} onOpenChange={setPasswordDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Share Password</DialogTitle>
+            <DialogDescription>
+              Recipients must enter this password before they can download the file.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            autoComplete="new-password"
+            placeholder={selectedFile?.passwordProtected ? "New password" : "Password"}
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+          />
+          <DialogFooter>
+            {selectedFile?.passwordProtected && (
+              <Button
+                variant="outline"
+                className="sm:mr-auto"
+                onClick={() => handleUpdatePassword(null)}
+                disabled={processingFileId === selectedFile?.id}
+              >
+                Remove password
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setPasswordDialogOpen(false)}
+              disabled={processingFileId === selectedFile?.id}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleUpdatePassword(newPassword)}
+              disabled={!newPassword || processingFileId === selectedFile?.id}
+            >
+              {processingFileId === selectedFile?.id ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyDialogOpen} onOpenChange={setHistoryDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link History</DialogTitle>
+            <DialogDescription>
+              Every link "{selectedFile?.originalName}" has been shared under. Revoked links no longer work.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedFile && (
+            <ShareLinkHistory
+              fileId={selectedFile.id}
+              currentSlug={files.find(file => file.id === selectedFile.id)?.shareSlug ?? null}
+            />
+          )}
+          <DialogFooter>
+            <Button onClick={() => setHistoryDialogOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={versionsDialogOpen} onOpenChange={setVersionsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>
+              Earlier uploads of "{selectedFile?.originalName}". The share link always serves the current version;
+              restoring an earlier one keeps the current one here.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedFile && (
+            <FileVersionHistory file={files.find(file => file.id === selectedFile.id) ?? selectedFile} />
+          )}
+          <DialogFooter>
+            <Button onClick={() => setVersionsDialogOpen(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={slugDialogOpen} onOpenChange={setSlugDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Custom Link</DialogTitle>
+            <DialogDescription>
+              Lowercase letters, digits and hyphens. The current link stops working once you save.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUpdateSlug();
+            }}
+          >
+            <div className="flex items-center gap-1 text-sm">
+              <span className="shrink-0 text-muted-foreground">{window.location.origin}/share/</span>
+              <Input
+                autoFocus
+                value={newSlug}
+                onChange={(e) => setNewSlug(e.target.value.toLowerCase())}
+                placeholder="my-file"
+              />
+            </div>
+            <DialogFooter className="mt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSlugDialogOpen(false)}
+                disabled={processingFileId === selectedFile?.id}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!newSlug.trim() || newSlug.trim() === selectedFile?.shareSlug || processingFileId === selectedFile?.id}
+              >
+                {processingFileId === selectedFile?.id ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MoveToFolderDialog
+        open={moveDialogOpen}
+        onOpenChange={setMoveDialogOpen}
+        title={`Move "${selectedFile?.originalName ?? ""}"`}
+        currentFolderId={selectedFile?.folderId ?? null}
+        processing={processingFileId === selectedFile?.id}
+        onConfirm={handleMoveFile}
+      />
     </>
   );
 };
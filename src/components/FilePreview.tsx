@@ -0,0 +1,177 @@
+import { SyntheticEvent, useEffect, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github.css";
+import { formatFileSize } from "@/services/fileService";
+import {
+  getCodeLanguage,
+  getPreviewKind,
+  isTextPreview,
+  MAX_TEXT_PREVIEW_SIZE,
+} from "@/lib/filePreview";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileIcon } from "lucide-react";
+
+interface FilePreviewProps {
+  url: string;
+  fileType: string;
+  fileName: string;
+  size: number;
+  // Called when audio or video stops loading, e.g. because the signed URL
+  // expired mid-playback. Playback resumes where it was once `url` changes.
+  onMediaError?: () => void;
+}
+
+const PreviewUnavailable = ({ message }: { message: string }) => (
+  <div className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+    <FileIcon className="h-8 w-8" />
+    <p>{message}</p>
+  </div>
+);
+
+const CodePreview = ({ text, fileName }: { text: string; fileName: string }) => {
+  const language = getCodeLanguage(fileName);
+  // highlight.js escapes the source, so its output is safe to inject.
+  const html = language && hljs.getLanguage(language)
+    ? hljs.highlight(text, { language }).value
+    : hljs.highlightAuto(text).value;
+
+  return (
+    <pre className="max-h-96 overflow-auto rounded-md border bg-muted/40 p-3 text-xs">
+      <code className="hljs bg-transparent p-0" dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  );
+};
+
+const MarkdownPreview = ({ text }: { text: string }) => (
+  <div className="max-h-96 overflow-auto rounded-md border p-4 text-sm space-y-3 [&_h1]:text-xl [&_h1]:font-bold [&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold [&_a]:text-primary [&_a]:underline [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_pre]:overflow-auto [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-2 [&_code]:text-xs [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground">
+    {/* Raw HTML is not rendered, and remote images would leak the viewer's IP to third parties. */}
+    <ReactMarkdown
+      disallowedElements={["img"]}
+      unwrapDisallowed
+      components={{
+        a: ({ node: _node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+// Inline viewer for a shared file, picked by its MIME type and extension.
+export const FilePreview = ({ url, fileType, fileName, size, onMediaError }: FilePreviewProps) => {
+  const kind = getPreviewKind(fileType, fileName);
+  const tooLarge = isTextPreview(kind) && size > MAX_TEXT_PREVIEW_SIZE;
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+  // Playback position to restore after the URL is replaced
+  const resumeAt = useRef(0);
+
+  const handleMediaError = (event: SyntheticEvent<HTMLMediaElement>) => {
+    resumeAt.current = event.currentTarget.currentTime;
+    onMediaError?.();
+  };
+
+  const handleLoadedMetadata = (event: SyntheticEvent<HTMLMediaElement>) => {
+    if (resumeAt.current > 0) {
+      event.currentTarget.currentTime = resumeAt.current;
+      resumeAt.current = 0;
+    }
+  };
+
+  useEffect(() => {
+    if (!isTextPreview(kind) || tooLarge) return;
+
+    const controller = new AbortController();
+    setText(null);
+    setError(false);
+
+    fetch(url, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) throw new Error(`Preview request failed with ${response.status}`);
+        return response.text();
+      })
+      .then(setText)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error loading preview:", err);
+        setError(true);
+      });
+
+    return () => controller.abort();
+  }, [url, kind, tooLarge]);
+
+  switch (kind) {
+    case "image":
+      return (
+        <img
+          src={url}
+          alt={fileName}
+          referrerPolicy="no-referrer"
+          className="max-h-96 w-full rounded-md border object-contain bg-muted/40"
+        />
+      );
+    // The browsers' PDF viewers need scripts and their own origin (the storage
+    // host, not the app's); forms, popups and navigating this page stay blocked.
+    case "pdf":
+      return (
+        <iframe
+          src={url}
+          title={fileName}
+          sandbox="allow-scripts allow-same-origin"
+          referrerPolicy="no-referrer"
+          className="h-96 w-full rounded-md border"
+        />
+      );
+    case "audio":
+      return (
+        <audio
+          src={url}
+          controls
+          preload="metadata"
+          className="w-full"
+          onError={handleMediaError}
+          onLoadedMetadata={handleLoadedMetadata}
+        />
+      );
+    case "video":
+      return (
+        <video
+          src={url}
+          controls
+          preload="metadata"
+          className="max-h-96 w-full rounded-md bg-black"
+          onError={handleMediaError}
+          onLoadedMetadata={handleLoadedMetadata}
+        />
+      );
+    case "none":
+      return <PreviewUnavailable message="No preview is available for this file type." />;
+  }
+
+  if (tooLarge) {
+    return (
+      <PreviewUnavailable
+        message={`This file is larger than ${formatFileSize(MAX_TEXT_PREVIEW_SIZE)}. Download it to view the contents.`}
+      />
+    );
+  }
+  if (error) {
+    return <PreviewUnavailable message="The preview could not be loaded." />;
+  }
+  if (text === null) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (kind === "markdown") {
+    return <MarkdownPreview text={text} />;
+  }
+  if (kind === "code") {
+    return <CodePreview text={text} fileName={fileName} />;
+  }
+  return (
+    <pre className="max-h-96 overflow-auto whitespace-pre-wrap break-words rounded-md border bg-muted/40 p-3 text-xs">
+      {text}
+    </pre>
+  );
+};
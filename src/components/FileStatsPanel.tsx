@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { getShareStats, ShareStats } from "@/services/fileService";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const chartConfig = {
+  views: {
+    label: "Views",
+    color: "hsl(var(--muted-foreground))",
+  },
+  downloads: {
+    label: "Downloads",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+interface FileStatsPanelProps {
+  fileId: string;
+}
+
+export const FileStatsPanel = ({ fileId }: FileStatsPanelProps) => {
+  const [stats, setStats] = useState<ShareStats | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getShareStats(fileId)
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(err => {
+        console.error("Error loading share stats:", err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">Statistics are unavailable right now.</p>;
+  }
+
+  if (!stats) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-6 text-sm">
+        <div>
+          <span className="text-muted-foreground">Views (30 days): </span>
+          <span className="font-medium">{stats.totalViews}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground">Downloads (30 days): </span>
+          <span className="font-medium">{stats.totalDownloads}</span>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <BarChart data={stats.daily} margin={{ left: 0, right: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={formatDay}
+          />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="views" fill="var(--color-views)" radius={2} />
+          <Bar dataKey="downloads" fill="var(--color-downloads)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+
+      {stats.totalViews + stats.totalDownloads > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground mb-1">Top referrers</p>
+            <ul className="space-y-0.5">
+              {stats.topReferrers.map(({ label, count }) => (
+                <li key={label} className="flex justify-between gap-2">
+                  <span className="truncate">{label}</span>
+                  <span>{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <p className="text-muted-foreground mb-1">Browsers</p>
+            <ul className="space-y-0.5">
+              {stats.topUserAgents.map(({ label, count }) => (
+                <li key={label} className="flex justify-between gap-2">
+                  <span className="truncate">{label}</span>
+                  <span>{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,31 +1,221 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { uploadFile, FileMetadata } from "@/services/fileService";
+import { useQuery } from "@tanstack/react-query";
+import {
+  UploadProgress,
+  InterruptedUpload,
+  formatFileSize,
+  getInterruptedUploads,
+  discardInterruptedUpload,
+  ensureFolderPath
+} from "@/services/fileService";
+import { getCurrentPlan } from "@/services/planService";
+import { FileError } from "@/services/fileErrors";
+import { useUploadQueue, UploadItem, UploadStatus } from "@/hooks/use-upload-queue";
+import { useUploadFile } from "@/hooks/use-files";
+import { collectDroppedFiles, fromFileList, SelectedFile } from "@/lib/fileEntries";
+import { DOWNLOAD_LIMIT_OPTIONS, UNLIMITED_DOWNLOADS, parseDownloadLimit } from "@/lib/shareOptions";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
-import { 
-  Select, 
-  SelectContent, 
-  SelectItem, 
-  SelectTrigger, 
-  SelectValue 
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
 } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Upload, X } from "lucide-react";
+import { CheckCircle2, FolderUp, Loader2, RotateCcw, Upload, X, XCircle } from "lucide-react";
 
 interface FileUploaderProps {
-  onFileUploaded: (file: FileMetadata) => void;
+  folderId: string | null;
+  onFoldersChanged?: () => void;
 }
 
-export const FileUploader = ({ onFileUploaded }: FileUploaderProps) => {
+// Non-standard attributes that let a file input pick whole directories.
+const directoryInputProps = { webkitdirectory: "", directory: "" } as Record<string, string>;
+
+const statusLabels: Record<UploadStatus, string> = {
+  pending: "Ready",
+  queued: "Waiting...",
+  uploading: "Uploading...",
+  done: "Uploaded",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+// Short enough for the line under the file name
+const describeUploadError = (reason: FileError): string => {
+  switch (reason.kind) {
+    case "quota_exceeded":
+      return reason.available !== null
+        ? `Not enough storage left (${formatFileSize(reason.available)} free)`
+        : "Not enough storage left";
+    case "too_large":
+      return reason.maxSize !== null
+        ? `Larger than the ${formatFileSize(reason.maxSize)} limit`
+        : "Larger than the size limit";
+    case "network":
+      return "Connection lost";
+    case "forbidden":
+      return "Session expired; sign in again";
+    case "not_found":
+      return "The target folder no longer exists";
+    case "conflict":
+      return "Clashed with another upload";
+    default:
+      return "Failed";
+  }
+};
+
+// Retrying these would fail the same way until the user does something else.
+const canRetry = (item: UploadItem) =>
+  item.status === "cancelled" ||
+  (item.status === "error" && !["quota_exceeded", "too_large", "forbidden", "not_found"].includes(item.error?.kind));
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${Math.max(1, Math.round(seconds))}s`;
+  } else if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  } else {
+    return `${Math.floor(seconds / 3600)}h ${Math.round((seconds % 3600) / 60)}m`;
+  }
+};
+
+const describeTransfer = (item: UploadItem): string => {
+  if (!item.bytesPerSecond || item.bytesPerSecond <= 0) {
+    return "Starting...";
+  }
+  const remaining = (item.file.size - item.loaded) / item.bytesPerSecond;
+  return `${formatFileSize(item.bytesPerSecond)}/s · ${formatDuration(remaining)} left`;
+};
+
+export const FileUploader = ({ folderId, onFoldersChanged }: FileUploaderProps) => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { mutateAsync: uploadFile } = useUploadFile();
   const [isDragging, setIsDragging] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
   const [expiresIn, setExpiresIn] = useState<string>("never");
+  const [password, setPassword] = useState("");
+  const [downloadLimit, setDownloadLimit] = useState<string>(UNLIMITED_DOWNLOADS);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [interrupted, setInterrupted] = useState<InterruptedUpload[]>([]);
+
+  const { data: plan } = useQuery({
+    queryKey: ["plan", user?.id],
+    queryFn: getCurrentPlan,
+    enabled: !!user,
+    staleTime: Infinity,
+  });
+
+  const refreshInterrupted = useCallback(() => {
+    if (!user) return;
+    getInterruptedUploads(user.id)
+      .then(setInterrupted)
+      .catch(error => console.error("Error reading interrupted uploads:", error));
+  }, [user]);
+
+  useEffect(() => {
+    refreshInterrupted();
+  }, [refreshInterrupted]);
+
+  const handleDiscardInterrupted = async (upload: InterruptedUpload) => {
+    await discardInterruptedUpload(upload);
+    refreshInterrupted();
+  };
+
+  // One lookup per uploaded directory, shared by every file inside it.
+  const folderPaths = useRef(new Map<string, Promise<string | null>>());
+  const onFoldersChangedRef = useRef(onFoldersChanged);
+  onFoldersChangedRef.current = onFoldersChanged;
+
+  const resolveFolder = useCallback((item: UploadItem) => {
+    const directories = item.relativePath.split("/").slice(0, -1);
+    if (directories.length === 0) {
+      return Promise.resolve(item.settings.folderId);
+    }
+
+    const key = `${item.settings.folderId ?? "root"}/${directories.join("/")}`;
+    let pending = folderPaths.current.get(key);
+    if (!pending) {
+      pending = ensureFolderPath(user.id, item.settings.folderId, directories);
+      pending.then(() => onFoldersChangedRef.current?.(), () => folderPaths.current.delete(key));
+      folderPaths.current.set(key, pending);
+    }
+    return pending;
+  }, [user]);
+
+  const upload = useCallback(
+    async (item: UploadItem, signal: AbortSignal, onProgress: (progress: UploadProgress) => void) => {
+      const targetFolderId = await resolveFolder(item);
+      return uploadFile({
+        file: item.file,
+        expiresIn: item.settings.expiresIn,
+        options: {
+          signal,
+          onProgress,
+          folderId: targetFolderId,
+          password: item.settings.password,
+          maxDownloads: item.settings.maxDownloads,
+        },
+      });
+    },
+    [uploadFile, resolveFolder]
+  );
+
+  // New files reach the file list through the query cache
+  const { items, addFiles, startPending, retry, cancel, remove, clearFinished } = useUploadQueue({ upload });
+
+  const pendingCount = items.filter(item => item.status === "pending").length;
+  const isBusy = items.some(item => item.status === "queued" || item.status === "uploading");
+  const hasFinished = items.some(item => item.status === "done" || item.status === "cancelled");
+
+  // Summarise a batch once the queue drains instead of toasting every file.
+  const wasBusy = useRef(false);
+  useEffect(() => {
+    if (wasBusy.current && !isBusy) {
+      const failed = items.filter(item => item.status === "error");
+      refreshInterrupted();
+      folderPaths.current.clear();
+      if (failed.length > 0) {
+        // Offer the one recovery step that helps the most failures
+        const failedWith = (kind: FileError["kind"]) => failed.filter(item => item.error?.kind === kind);
+        const action = failedWith("quota_exceeded").length > 0
+          ? { label: "Open trash", onClick: () => navigate("/dashboard?view=trash") }
+          : failedWith("forbidden").length > 0
+            ? { label: "Sign in", onClick: () => navigate("/login") }
+            : failedWith("network").length > 0
+              ? { label: "Retry", onClick: () => failedWith("network").forEach(item => retry(item.id)) }
+              : undefined;
+        toast.error(`${failed.length} ${failed.length === 1 ? "file" : "files"} failed to upload`, { action });
+      } else {
+        toast.success("Upload complete!");
+      }
+    }
+    wasBusy.current = isBusy;
+  }, [isBusy, items, refreshInterrupted, navigate, retry]);
+
+  const validateAndAddFiles = useCallback((selected: SelectedFile[]) => {
+    // Until the plan loads, uploadFile still enforces the limit per file.
+    const accepted = plan
+      ? selected.filter(({ file }) => file.size <= plan.maxFileSize)
+      : selected;
+    const rejected = selected.length - accepted.length;
+
+    if (rejected > 0) {
+      toast.error(
+        `${rejected} ${rejected === 1 ? "file exceeds" : "files exceed"} the maximum limit of ${formatFileSize(plan.maxFileSize)}`
+      );
+    }
+    if (accepted.length > 0) {
+      addFiles(accepted);
+    }
+  }, [addFiles, plan]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -37,157 +227,224 @@ export const FileUploader = ({ onFileUploaded }: FileUploaderProps) => {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const droppedFile = e.dataTransfer.files[0];
-      validateAndSetFile(droppedFile);
-    }
-  }, []);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      validateAndSetFile(e.target.files[0]);
+    try {
+      validateAndAddFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error("Error reading dropped files:", error);
+      toast.error("Some dropped items could not be read");
     }
-  };
+  }, [validateAndAddFiles]);
 
-  const validateAndSetFile = (fileToValidate: File) => {
-    const maxSize = 50 * 1024 * 1024; // 50MB in bytes
-    if (fileToValidate.size > maxSize) {
-      toast.error("File size exceeds the maximum limit of 50MB");
-      return;
-    }
-    
-    setFile(fileToValidate);
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    validateAndAddFiles(fromFileList(e.target.files));
+    e.target.value = "";
   };
 
-  const handleClearFile = () => {
-    setFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+  const handleUpload = () => {
+    if (!user || pendingCount === 0) return;
+    startPending({
+      expiresIn: expiresIn !== "never" ? parseInt(expiresIn, 10) : null,
+      folderId,
+      password: password || null,
+      maxDownloads: parseDownloadLimit(downloadLimit),
+    });
+    setPassword("");
+    setDownloadLimit(UNLIMITED_DOWNLOADS);
   };
 
-  const handleUpload = async () => {
-    if (!file || !user) return;
-
-    setIsUploading(true);
-    setProgress(0);
-
-    try {
-      const progressInterval = setInterval(() => {
-        setProgress(prev => Math.min(prev + 10, 90));
-      }, 500);
-
-      const uploadedFile = await uploadFile(file, user.id, expiresIn !== "never" ? parseInt(expiresIn, 10) : null);
-      
-      clearInterval(progressInterval);
-      setProgress(100);
-      
-      toast.success("File uploaded successfully!");
-      onFileUploaded(uploadedFile);
-      
-      setTimeout(() => {
-        setFile(null);
-        setProgress(0);
-        setExpiresIn("never");
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
-      }, 1000);
-    } catch (error) {
-      console.error("Upload error:", error);
-      toast.error("Failed to upload file. Please try again.");
-    } finally {
-      setIsUploading(false);
+  const renderStatusIcon = (status: UploadStatus) => {
+    switch (status) {
+      case "uploading":
+        return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+      case "done":
+        return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+      case "error":
+        return <XCircle className="h-4 w-4 text-destructive" />;
+      default:
+        return null;
     }
   };
 
   return (
     <Card>
-      <CardContent className="p-6">
+      <CardContent className="p-6 space-y-4">
         <div
           className={`dropzone ${isDragging ? 'active' : ''}`}
           onDragOver={handleDragOver}
           onDragLeave={handleDragLeave}
           onDrop={handleDrop}
         >
-          {file ? (
-            <div className="space-y-4">
-              <div className="flex items-start justify-between">
+          <div className="text-center">
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+              <Upload className="h-6 w-6 text-primary" />
+            </div>
+            <h3 className="mt-4 font-medium">Drag and drop files or folders here</h3>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Or click to browse{plan && ` (max ${formatFileSize(plan.maxFileSize)} per file)`}
+            </p>
+            <div className="mt-4 flex justify-center gap-2">
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                Browse Files
+              </Button>
+              <Button variant="outline" onClick={() => folderInputRef.current?.click()}>
+                <FolderUp className="mr-2 h-4 w-4" />
+                Browse Folder
+              </Button>
+            </div>
+            <input
+              type="file"
+              className="hidden"
+              multiple
+              ref={fileInputRef}
+              onChange={handleFileChange}
+            />
+            <input
+              type="file"
+              className="hidden"
+              ref={folderInputRef}
+              onChange={handleFileChange}
+              {...directoryInputProps}
+            />
+          </div>
+        </div>
+
+        {interrupted.length > 0 && (
+          <div className="rounded-md border border-dashed p-3 space-y-2">
+            <p className="text-sm font-medium">Interrupted uploads</p>
+            <p className="text-xs text-muted-foreground">
+              Add the same file again to continue where it stopped.
+            </p>
+            <ul className="space-y-1">
+              {interrupted.map(upload => (
+                <li key={upload.urlStorageKey} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {upload.fileName}
+                    {upload.size !== null && (
+                      <span className="text-muted-foreground"> ({formatFileSize(upload.size)})</span>
+                    )}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleDiscardInterrupted(upload)}>
+                    Discard
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="space-y-4">
+            <ul className="divide-y rounded-md border">
+              {items.map(item => (
+                <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{item.relativePath}</p>
+                    {item.status === "uploading" ? (
+                      <div className="mt-1 space-y-1">
+                        <Progress
+                          value={item.file.size > 0 ? (item.loaded / item.file.size) * 100 : 0}
+                          className="h-2 progress-animate"
+                        />
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                          <span>
+                            {formatFileSize(item.loaded)} of {formatFileSize(item.file.size)}
+                          </span>
+                          <span>{describeTransfer(item)}</span>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className={`text-xs ${item.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {formatFileSize(item.file.size)} · {item.error ? describeUploadError(item.error) : statusLabels[item.status]}
+                      </p>
+                    )}
+                  </div>
+                  {renderStatusIcon(item.status)}
+                  {canRetry(item) && (
+                    <Button variant="ghost" size="icon" onClick={() => retry(item.id)} title="Retry">
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {item.status === "queued" || item.status === "uploading" ? (
+                    <Button variant="ghost" size="icon" onClick={() => cancel(item.id)} title="Cancel">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="icon" onClick={() => remove(item.id)} title="Remove">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {pendingCount > 0 && (
+              <div className="space-y-4">
                 <div>
-                  <h3 className="font-medium">File selected:</h3>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {file.name} ({(file.size / 1024 / 1024).toFixed(2)} MB)
-                  </p>
+                  <p className="text-sm mb-2">Link expiration:</p>
+                  <Select
+                    value={expiresIn}
+                    onValueChange={setExpiresIn}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select expiration" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never expires</SelectItem>
+                      <SelectItem value="1">1 day</SelectItem>
+                      <SelectItem value="7">7 days</SelectItem>
+                      <SelectItem value="30">30 days</SelectItem>
+                      <SelectItem value="90">90 days</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-                <Button variant="ghost" size="icon" onClick={handleClearFile} disabled={isUploading}>
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
 
-              {isUploading ? (
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Uploading...</span>
-                    <span>{progress}%</span>
-                  </div>
-                  <Progress value={progress} className="progress-animate" />
+                <div>
+                  <p className="text-sm mb-2">Download limit:</p>
+                  <Select
+                    value={downloadLimit}
+                    onValueChange={setDownloadLimit}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select download limit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DOWNLOAD_LIMIT_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              ) : (
-                <div className="space-y-4">
-                  <div>
-                    <p className="text-sm mb-2">Link expiration:</p>
-                    <Select 
-                      value={expiresIn}
-                      onValueChange={setExpiresIn}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="Select expiration" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="never">Never expires</SelectItem>
-                        <SelectItem value="1">1 day</SelectItem>
-                        <SelectItem value="7">7 days</SelectItem>
-                        <SelectItem value="30">30 days</SelectItem>
-                        <SelectItem value="90">90 days</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  <Button onClick={handleUpload} className="w-full">
-                    Upload File
-                  </Button>
+
+                <div>
+                  <p className="text-sm mb-2">Password (optional):</p>
+                  <Input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Leave empty for an open link"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
                 </div>
-              )}
-            </div>
-          ) : (
-            <div className="text-center">
-              <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
-                <Upload className="h-6 w-6 text-primary" />
+
+                <Button onClick={handleUpload} className="w-full">
+                  Upload {pendingCount} {pendingCount === 1 ? "File" : "Files"}
+                </Button>
               </div>
-              <h3 className="mt-4 font-medium">Drag and drop a file here</h3>
-              <p className="mt-2 text-sm text-muted-foreground">
-                Or click to browse (max 50MB)
-              </p>
-              <Button
-                variant="outline"
-                className="mt-4"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                Browse Files
+            )}
+
+            {hasFinished && !isBusy && (
+              <Button variant="ghost" size="sm" onClick={clearFinished}>
+                Clear finished
               </Button>
-              <input
-                type="file"
-                className="hidden"
-                ref={fileInputRef}
-                onChange={handleFileChange}
-              />
-            </div>
-          )}
-        </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,114 @@
+import { FileMetadata, FileVersion, formatFileSize, getDownloadUrl } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { useDeleteFileVersion, useFileVersions, useRestoreFileVersion } from "@/hooks/use-files";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { Download, RotateCcw, Trash2 } from "lucide-react";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+interface FileVersionHistoryProps {
+  // The file as currently cached, so the list follows uploads and restores
+  file: FileMetadata;
+}
+
+export const FileVersionHistory = ({ file }: FileVersionHistoryProps) => {
+  const { data: versions, isError } = useFileVersions(file.id);
+  const restoreVersion = useRestoreFileVersion();
+  const deleteVersion = useDeleteFileVersion();
+  const busy = restoreVersion.isPending || deleteVersion.isPending;
+
+  const handleDownload = async (version: FileVersion) => {
+    try {
+      window.location.href = await getDownloadUrl(version);
+    } catch (error) {
+      console.error("Error downloading version:", error);
+      toast.error(`Failed to start the download. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  const handleRestore = (version: FileVersion) => {
+    restoreVersion.mutate({ fileId: file.id, version: version.version }, {
+      onSuccess: () => toast.success(`Version ${version.version} restored`),
+      onError: error => {
+        console.error("Error restoring version:", error);
+        toast.error(`Failed to restore version ${version.version}. ${describeFileError(fileErrorReason(error))}`);
+      },
+    });
+  };
+
+  const handleDelete = (version: FileVersion) => {
+    if (!window.confirm(`Delete version ${version.version} forever? This action cannot be undone.`)) {
+      return;
+    }
+
+    deleteVersion.mutate({ fileId: file.id, version: version.version }, {
+      onSuccess: () => toast.success(`Version ${version.version} deleted`),
+      onError: error => {
+        const reason = fileErrorReason(error);
+        if (reason.kind === "not_found") return;
+        console.error("Error deleting version:", error);
+        toast.error(`Failed to delete version ${version.version}. ${describeFileError(reason)}`);
+      },
+    });
+  };
+
+  if (isError) {
+    return <p className="text-sm text-muted-foreground">The version history is unavailable right now.</p>;
+  }
+
+  if (!versions) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <ul className="max-h-72 space-y-2 overflow-auto text-sm">
+      <li className="rounded-md border px-3 py-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="truncate font-medium">Version {file.version}: {file.originalName}</span>
+          <Badge className="shrink-0">Current</Badge>
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {formatFileSize(file.size)}, uploaded {formatDateTime(file.uploadDate)}
+        </p>
+      </li>
+      {versions.map(version => (
+        <li key={version.id} className="rounded-md border px-3 py-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate">Version {version.version}: {version.originalName}</span>
+            <div className="flex shrink-0 gap-1">
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Download" onClick={() => handleDownload(version)}>
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Restore" onClick={() => handleRestore(version)} disabled={busy}>
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                title="Delete forever"
+                onClick={() => handleDelete(version)}
+                disabled={busy}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {formatFileSize(version.size)}, uploaded {formatDateTime(version.uploadDate)}
+          </p>
+        </li>
+      ))}
+      {versions.length === 0 && (
+        <li className="text-xs text-muted-foreground">
+          No earlier versions. Upload a new version to keep this one here.
+        </li>
+      )}
+    </ul>
+  );
+};
@@ -0,0 +1,287 @@
+import { Fragment, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Folder,
+  createFolder,
+  renameFolder,
+  moveFolder,
+  deleteFolder,
+} from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { useAuth } from "@/contexts/AuthContext";
+import { MoveToFolderDialog } from "@/components/MoveToFolderDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FolderIcon, FolderInput, FolderPlus, MoreVertical, Pencil, Trash } from "lucide-react";
+
+interface FolderBrowserProps {
+  currentFolderId: string | null;
+  path: Folder[];
+  folders: Folder[];
+  onNavigate: (folderId: string | null) => void;
+  onFoldersChanged: () => void;
+}
+
+export const FolderBrowser = ({
+  currentFolderId,
+  path,
+  folders,
+  onNavigate,
+  onFoldersChanged,
+}: FolderBrowserProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [nameDialogOpen, setNameDialogOpen] = useState(false);
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false);
+  // null while creating a new folder, otherwise the folder being renamed or moved
+  const [selectedFolder, setSelectedFolder] = useState<Folder | null>(null);
+  const [folderName, setFolderName] = useState("");
+  const [processing, setProcessing] = useState(false);
+
+  const openCreateDialog = () => {
+    setSelectedFolder(null);
+    setFolderName("");
+    setNameDialogOpen(true);
+  };
+
+  const openRenameDialog = (folder: Folder) => {
+    setSelectedFolder(folder);
+    setFolderName(folder.name);
+    setNameDialogOpen(true);
+  };
+
+  const openMoveDialog = (folder: Folder) => {
+    setSelectedFolder(folder);
+    setMoveDialogOpen(true);
+  };
+
+  const handleSaveName = async () => {
+    if (!user || !folderName.trim()) return;
+
+    if (folderName.includes("/")) {
+      toast.error("Folder names cannot contain \"/\"");
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      if (selectedFolder) {
+        await renameFolder(selectedFolder.id, user.id, folderName);
+        toast.success("Folder renamed");
+      } else {
+        await createFolder(user.id, folderName, currentFolderId);
+        toast.success("Folder created");
+      }
+      onFoldersChanged();
+      setNameDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving folder:", error);
+      const reason = fileErrorReason(error);
+      toast.error(reason.kind === "conflict"
+        ? `A folder named "${folderName.trim()}" already exists here`
+        : `Failed to save folder. ${describeFileError(reason)}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleMoveFolder = async (parentId: string | null) => {
+    if (!user || !selectedFolder) return;
+
+    setProcessing(true);
+
+    try {
+      await moveFolder(selectedFolder.id, user.id, parentId);
+      toast.success("Folder moved");
+      onFoldersChanged();
+      setMoveDialogOpen(false);
+    } catch (error) {
+      console.error("Error moving folder:", error);
+      const reason = fileErrorReason(error);
+      toast.error(reason.kind === "conflict"
+        ? `The destination already has a folder named "${selectedFolder.name}"`
+        : `Failed to move folder. ${describeFileError(reason)}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDeleteFolder = async (folder: Folder) => {
+    if (!user) return;
+
+    if (!window.confirm(`Delete "${folder.name}" and its subfolders? The files in them move to the trash.`)) {
+      return;
+    }
+
+    setProcessing(true);
+
+    try {
+      await deleteFolder(folder.id);
+      toast.success("Folder deleted. Its files are in the trash.", {
+        action: { label: "Open trash", onClick: () => navigate("/dashboard?view=trash") },
+      });
+      onFoldersChanged();
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      toast.error(`Failed to delete folder. ${describeFileError(fileErrorReason(error))}`);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              {currentFolderId ? (
+                <BreadcrumbLink asChild>
+                  <button type="button" onClick={() => onNavigate(null)}>All files</button>
+                </BreadcrumbLink>
+              ) : (
+                <BreadcrumbPage>All files</BreadcrumbPage>
+              )}
+            </BreadcrumbItem>
+            {path.map((folder, index) => (
+              <Fragment key={folder.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === path.length - 1 ? (
+                    <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink asChild>
+                      <button type="button" onClick={() => onNavigate(folder.id)}>{folder.name}</button>
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+        <Button variant="outline" size="sm" onClick={openCreateDialog}>
+          <FolderPlus className="mr-2 h-4 w-4" />
+          New folder
+        </Button>
+      </div>
+
+      {folders.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {folders.map(folder => (
+            <div
+              key={folder.id}
+              className="flex items-center gap-2 rounded-lg border bg-card p-3 hover:bg-accent transition-colors"
+            >
+              <button
+                type="button"
+                className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                onClick={() => onNavigate(folder.id)}
+              >
+                <FolderIcon className="h-5 w-5 shrink-0 text-primary" />
+                <span className="truncate text-sm font-medium">{folder.name}</span>
+              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={processing}>
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => openRenameDialog(folder)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    <span>Rename</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => openMoveDialog(folder)}>
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    <span>Move to folder</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => handleDeleteFolder(folder)}
+                  >
+                    <Trash className="mr-2 h-4 w-4" />
+                    <span>Delete folder</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={nameDialogOpen} onOpenChange={setNameDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedFolder ? "Rename Folder" : "New Folder"}</DialogTitle>
+            <DialogDescription>
+              {selectedFolder
+                ? "Enter a new name for this folder."
+                : "The folder is created inside the folder you are viewing."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveName();
+            }}
+          >
+            <Input
+              autoFocus
+              value={folderName}
+              onChange={(e) => setFolderName(e.target.value)}
+              placeholder="Folder name"
+            />
+            <DialogFooter className="mt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setNameDialogOpen(false)}
+                disabled={processing}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={processing || !folderName.trim()}>
+                {processing ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <MoveToFolderDialog
+        open={moveDialogOpen}
+        onOpenChange={setMoveDialogOpen}
+        title={`Move "${selectedFolder?.name ?? ""}"`}
+        currentFolderId={selectedFolder?.parentId ?? null}
+        excludeFolderId={selectedFolder?.id}
+        processing={processing}
+        onConfirm={handleMoveFolder}
+      />
+    </div>
+  );
+};
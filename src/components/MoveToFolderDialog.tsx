@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from "react";
+import { Folder, getAllFolders } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+const ROOT_VALUE = "root";
+
+interface MoveToFolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  currentFolderId: string | null;
+  // A folder being moved cannot go into itself or any of its descendants.
+  excludeFolderId?: string;
+  processing: boolean;
+  onConfirm: (folderId: string | null) => void;
+}
+
+interface FolderOption {
+  id: string;
+  label: string;
+}
+
+const buildOptions = (folders: Folder[], excludeFolderId?: string): FolderOption[] => {
+  const children = new Map<string | null, Folder[]>();
+  folders.forEach(folder => {
+    const siblings = children.get(folder.parentId) ?? [];
+    siblings.push(folder);
+    children.set(folder.parentId, siblings);
+  });
+
+  const options: FolderOption[] = [];
+  const visit = (parentId: string | null, prefix: string) => {
+    (children.get(parentId) ?? []).forEach(folder => {
+      if (folder.id === excludeFolderId) return;
+      const label = prefix ? `${prefix} / ${folder.name}` : folder.name;
+      options.push({ id: folder.id, label });
+      visit(folder.id, label);
+    });
+  };
+  visit(null, "");
+
+  return options;
+};
+
+export const MoveToFolderDialog = ({
+  open,
+  onOpenChange,
+  title,
+  currentFolderId,
+  excludeFolderId,
+  processing,
+  onConfirm,
+}: MoveToFolderDialogProps) => {
+  const { user } = useAuth();
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [target, setTarget] = useState<string>(currentFolderId ?? ROOT_VALUE);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    setTarget(currentFolderId ?? ROOT_VALUE);
+    getAllFolders(user.id)
+      .then(setFolders)
+      .catch(error => {
+        console.error("Error loading folders:", error);
+        toast.error(`Failed to load your folders. ${describeFileError(fileErrorReason(error))}`);
+      });
+  }, [open, user, currentFolderId]);
+
+  const options = useMemo(() => buildOptions(folders, excludeFolderId), [folders, excludeFolderId]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Choose the destination folder. Shared links keep working after a move.
+          </DialogDescription>
+        </DialogHeader>
+        <Select value={target} onValueChange={setTarget}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select folder" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ROOT_VALUE}>All files</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(target === ROOT_VALUE ? null : target)}
+            disabled={processing || target === (currentFolderId ?? ROOT_VALUE)}
+          >
+            {processing ? "Moving..." : "Move"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { getShareLinkHistory, ShareLinkRecord } from "@/services/fileService";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+interface ShareLinkHistoryProps {
+  fileId: string;
+  // The slug the file currently has, so the list refreshes when it changes
+  currentSlug: string | null;
+}
+
+export const ShareLinkHistory = ({ fileId, currentSlug }: ShareLinkHistoryProps) => {
+  const [links, setLinks] = useState<ShareLinkRecord[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getShareLinkHistory(fileId)
+      .then(result => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch(err => {
+        console.error("Error loading link history:", err);
+        if (!cancelled) setError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, currentSlug]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">The link history is unavailable right now.</p>;
+  }
+
+  if (!links) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <ul className="max-h-72 space-y-2 overflow-auto text-sm">
+      {links.map(link => (
+        <li key={link.slug} className="rounded-md border px-3 py-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate font-mono">/share/{link.slug}</span>
+            {link.revokedAt ? (
+              <Badge variant="outline" className="shrink-0 text-muted-foreground">Revoked</Badge>
+            ) : (
+              <Badge className="shrink-0">Active</Badge>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {link.isCustom ? "Custom link" : "Generated link"} created {formatDateTime(link.createdAt)}
+            {link.revokedAt && `, revoked ${formatDateTime(link.revokedAt)}`}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+};
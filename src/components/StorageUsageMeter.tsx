@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { useStorageUsage } from "@/hooks/use-files";
+import { formatFileSize } from "@/services/fileService";
+import { FILE_TYPE_FILTERS, getFileTypeCategory } from "@/lib/fileQuery";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+const CATEGORY_COLORS: Record<string, string> = {
+  image: "bg-sky-500",
+  video: "bg-violet-500",
+  audio: "bg-amber-500",
+  document: "bg-emerald-500",
+  archive: "bg-rose-500",
+  other: "bg-slate-400",
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  ...Object.fromEntries(FILE_TYPE_FILTERS.map(filter => [filter.value, filter.label])),
+  other: "Other",
+};
+
+// Shown in yellow from here on, and in red once the quota is used up
+const WARNING_RATIO = 0.9;
+
+export const StorageUsageMeter = () => {
+  const { data: usage, isError } = useStorageUsage();
+
+  const categories = useMemo(() => {
+    const totals = new Map<string, { bytes: number; files: number }>();
+    usage?.byType.forEach(({ fileType, bytes, files }) => {
+      const category = getFileTypeCategory(fileType);
+      const total = totals.get(category) ?? { bytes: 0, files: 0 };
+      totals.set(category, { bytes: total.bytes + bytes, files: total.files + files });
+    });
+    return [...totals.entries()]
+      .map(([category, total]) => ({ category, ...total }))
+      .sort((a, b) => b.bytes - a.bytes);
+  }, [usage]);
+
+  if (isError) {
+    return <p className="text-sm text-muted-foreground">Storage usage is unavailable right now.</p>;
+  }
+
+  if (!usage) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const ratio = usage.quota > 0 ? usage.used / usage.quota : 1;
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-card p-4">
+      <div className="flex items-baseline justify-between gap-4 text-sm">
+        <span className="font-medium">Storage</span>
+        <span className={cn(ratio >= 1 ? "text-destructive" : "text-muted-foreground")}>
+          {formatFileSize(usage.used)} of {formatFileSize(usage.quota)} used
+        </span>
+      </div>
+      <div
+        className="flex h-3 w-full overflow-hidden rounded-full bg-secondary"
+        role="meter"
+        aria-label="Storage used"
+        aria-valuemin={0}
+        aria-valuemax={usage.quota}
+        aria-valuenow={usage.used}
+      >
+        {categories.map(({ category, bytes }) => (
+          <div
+            key={category}
+            className={cn("h-full", ratio >= WARNING_RATIO ? (ratio >= 1 ? "bg-destructive" : "bg-amber-500") : CATEGORY_COLORS[category])}
+            style={{ width: `${Math.min(bytes / usage.quota, 1) * 100}%` }}
+          />
+        ))}
+      </div>
+      {categories.length > 0 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {categories.map(({ category, bytes, files }) => (
+            <li key={category} className="flex items-center gap-1.5">
+              <span className={cn("h-2 w-2 rounded-full", CATEGORY_COLORS[category])} />
+              {CATEGORY_LABELS[category]}: {formatFileSize(bytes)} ({files} {files === 1 ? "file" : "files"})
+            </li>
+          ))}
+        </ul>
+      )}
+      {ratio >= WARNING_RATIO && (
+        <p className={cn("text-xs", ratio >= 1 ? "text-destructive" : "text-amber-600")}>
+          {ratio >= 1
+            ? "Your storage is full. Delete files or empty the trash to upload new ones."
+            : "Your storage is almost full."}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { FileMetadata, formatFileSize, TRASH_RETENTION_DAYS } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { useBatchFiles, useDeleteFile, useRestoreFile, useTrashedFiles } from "@/hooks/use-files";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import { FileIcon, RotateCcw, Trash, Trash2 } from "lucide-react";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+// Days until cleanup-expired purges the file; at least 0.
+const daysLeft = (deletedAt: Date) =>
+  Math.max(Math.ceil((deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS), 0);
+
+export const TrashView = () => {
+  const { data: files = [], isPending, isError } = useTrashedFiles();
+  const restoreFile = useRestoreFile();
+  const deleteFile = useDeleteFile();
+  const batch = useBatchFiles();
+
+  const handleRestore = (file: FileMetadata) => {
+    restoreFile.mutate(file.id, {
+      onSuccess: () => toast.success(`"${file.originalName}" restored`),
+      onError: error => {
+        const reason = fileErrorReason(error);
+        console.error("Error restoring file:", error);
+        toast.error(`Failed to restore file. ${describeFileError(reason)}`, reason.kind === "network"
+          ? { action: { label: "Retry", onClick: () => handleRestore(file) } }
+          : undefined);
+      },
+    });
+  };
+
+  const handleDeleteForever = (file: FileMetadata, confirm = true) => {
+    if (confirm && !window.confirm(`Delete "${file.originalName}" forever? This action cannot be undone.`)) {
+      return;
+    }
+
+    deleteFile.mutate(file.id, {
+      onSuccess: () => toast.success("File deleted"),
+      onError: error => {
+        const reason = fileErrorReason(error);
+        if (reason.kind === "not_found") {
+          toast.info("This file was already deleted");
+          return;
+        }
+        console.error("Error deleting file:", error);
+        toast.error(`Failed to delete file. ${describeFileError(reason)}`, reason.kind === "network"
+          ? { action: { label: "Retry", onClick: () => handleDeleteForever(file, false) } }
+          : undefined);
+      },
+    });
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Delete all ${files.length} ${files.length === 1 ? "file" : "files"} in the trash forever? This action cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const results = await batch.mutateAsync({
+        fileIds: files.map(file => file.id),
+        batch: { action: "delete" },
+      });
+      const failed = results.filter(result => !result.ok).length;
+      if (failed > 0) {
+        toast.error(`${failed} ${failed === 1 ? "file" : "files"} could not be deleted`);
+      } else {
+        toast.success("Trash emptied");
+      }
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      toast.error(`Failed to empty the trash. ${describeFileError(fileErrorReason(error))}`);
+    }
+  };
+
+  if (isError) {
+    return <p className="text-sm text-muted-foreground">The trash is unavailable right now.</p>;
+  }
+
+  if (isPending) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Files in the trash are deleted for good after {TRASH_RETENTION_DAYS} days. Until then they still
+          count towards your storage and their links don't work.
+        </p>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={handleEmptyTrash}
+          disabled={files.length === 0 || batch.isPending}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          {batch.isPending ? "Emptying..." : "Empty trash"}
+        </Button>
+      </div>
+
+      {files.length === 0 ? (
+        <div className="rounded-lg border border-dashed p-8 text-center">
+          <Trash className="mx-auto h-8 w-8 text-muted-foreground" />
+          <p className="mt-2 text-sm text-muted-foreground">The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="divide-y rounded-lg border bg-card">
+          {files.map(file => {
+            const remaining = file.deletedAt ? daysLeft(file.deletedAt) : TRASH_RETENTION_DAYS;
+            return (
+              <li key={file.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+                <FileIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{file.originalName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(file.size)}
+                    {file.deletedAt && ` · deleted ${formatDate(file.deletedAt)}`}
+                    {` · ${remaining === 0 ? "deleted at the next cleanup" : `${remaining} ${remaining === 1 ? "day" : "days"} left`}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(file)}
+                  disabled={batch.isPending}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleDeleteForever(file)}
+                  disabled={batch.isPending}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete forever
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
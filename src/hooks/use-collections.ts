@@ -0,0 +1,97 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  addFilesToCollection,
+  createCollection,
+  deleteCollection,
+  getCollections,
+  removeFileFromCollection,
+  renameCollection,
+  setCollectionPassword,
+  updateCollectionExpiration,
+} from "@/services/collectionService";
+
+export const collectionKeys = {
+  all: (userId: string | undefined) => ["collections", userId] as const,
+};
+
+export type CollectionChange =
+  | { kind: "rename"; name: string }
+  | { kind: "expiration"; expiresIn: number | null }
+  | { kind: "password"; password: string | null };
+
+export function useCollections() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: collectionKeys.all(user?.id),
+    queryFn: () => getCollections(user!.id),
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Collections are few and small, so every change simply refetches them.
+const useInvalidateCollections = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: collectionKeys.all(user?.id) });
+};
+
+export function useCreateCollection() {
+  const { user } = useAuth();
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ name, fileIds }: { name: string; fileIds?: string[] }) =>
+      createCollection(user!.id, name, fileIds),
+    onSettled: invalidate,
+  });
+}
+
+export function useAddToCollection() {
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, fileIds }: { collectionId: string; fileIds: string[] }) =>
+      addFilesToCollection(collectionId, fileIds),
+    onSettled: invalidate,
+  });
+}
+
+export function useRemoveFromCollection() {
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, fileId }: { collectionId: string; fileId: string }) =>
+      removeFileFromCollection(collectionId, fileId),
+    onSettled: invalidate,
+  });
+}
+
+export function useUpdateCollection() {
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: ({ collectionId, change }: { collectionId: string; change: CollectionChange }) => {
+      switch (change.kind) {
+        case "rename":
+          return renameCollection(collectionId, change.name);
+        case "expiration":
+          return updateCollectionExpiration(collectionId, change.expiresIn);
+        case "password":
+          return setCollectionPassword(collectionId, change.password);
+      }
+    },
+    onSettled: invalidate,
+  });
+}
+
+export function useDeleteCollection() {
+  const invalidate = useInvalidateCollections();
+
+  return useMutation({
+    mutationFn: (collectionId: string) => deleteCollection(collectionId),
+    onSettled: invalidate,
+  });
+}
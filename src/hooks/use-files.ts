@@ -0,0 +1,430 @@
+import { useCallback, useEffect, useMemo } from "react";
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  BatchAction,
+  deleteFile,
+  deleteFileVersion,
+  FileCursor,
+  FileMetadata,
+  FilePage,
+  FileVersion,
+  getFileVersions,
+  getTrashedFiles,
+  getUserFiles,
+  restoreFile,
+  restoreFileVersion,
+  runBatchAction,
+  subscribeToFileChanges,
+  trashFile,
+  updateFileExpiration,
+  uploadFile,
+  uploadFileVersion,
+  UploadOptions,
+} from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { getStorageUsage } from "@/services/planService";
+import { FileQuery, isFilteringFiles } from "@/lib/fileQuery";
+
+type FilePages = InfiniteData<FilePage, FileCursor | null>;
+
+export const fileKeys = {
+  all: (userId: string | undefined) => ["files", userId] as const,
+  list: (userId: string | undefined, folderId: string | null, query: FileQuery) =>
+    ["files", userId, folderId, query] as const,
+};
+
+type FileListKey = ReturnType<typeof fileKeys.list>;
+
+// Kept apart from fileKeys so list updates never touch them.
+export const storageUsageKey = (userId: string | undefined) => ["storage-usage", userId] as const;
+export const trashKey = (userId: string | undefined) => ["trash", userId] as const;
+export const fileVersionsKey = (fileId: string) => ["file-versions", fileId] as const;
+
+// Cached pages are fresh for a while; after that they refetch in the background
+// on mount and window focus.
+const FILES_STALE_TIME = 30 * 1000;
+
+// Whether a file shows up in a cached list, going by folder alone. Filtered
+// lists span all folders; whether the file still matches is left to the refetch.
+// Trashed files show up in none of them.
+const belongsInList = (file: FileMetadata, [, , folderId, query]: FileListKey) =>
+  !file.deletedAt && (isFilteringFiles(query) || file.folderId === folderId);
+
+// Only the default newest-first folder listing knows where a new file goes.
+const acceptsPrepend = (file: FileMetadata, key: FileListKey) => {
+  const [, , folderId, query] = key;
+  return !isFilteringFiles(query) && query.sort === "date" && query.order === "desc" && file.folderId === folderId;
+};
+
+const updateCachedLists = (
+  queryClient: QueryClient,
+  userId: string | undefined,
+  update: (files: FileMetadata[], key: FileListKey, pageIndex: number) => FileMetadata[]
+) => {
+  queryClient.getQueriesData<FilePages>({ queryKey: fileKeys.all(userId) }).forEach(([key, data]) => {
+    if (!data) return;
+    queryClient.setQueryData<FilePages>(key, {
+      ...data,
+      pages: data.pages.map((page, index) => ({
+        ...page,
+        files: update(page.files, key as FileListKey, index),
+      })),
+    });
+  });
+};
+
+// Places a new file in the lists that can take it and refetches those that
+// cannot (filtered or differently sorted). Safe to call twice for one file,
+// e.g. for an upload and its realtime insert event.
+const addToCachedLists = (queryClient: QueryClient, userId: string | undefined, added: FileMetadata) => {
+  updateCachedLists(queryClient, userId, (files, key, pageIndex) =>
+    pageIndex === 0 && acceptsPrepend(added, key) && !files.some(file => file.id === added.id)
+      ? [added, ...files]
+      : files
+  );
+  queryClient.invalidateQueries({
+    queryKey: fileKeys.all(userId),
+    predicate: query => {
+      const key = query.queryKey as FileListKey;
+      return !acceptsPrepend(added, key) && belongsInList(added, key);
+    },
+  });
+};
+
+// Writes a file the server already returned into every cached list, dropping it
+// from folder listings it has moved out of.
+const replaceInCachedLists = (queryClient: QueryClient, userId: string | undefined, updated: FileMetadata) => {
+  updateCachedLists(queryClient, userId, (files, key) =>
+    belongsInList(updated, key)
+      ? files.map(file => (file.id === updated.id ? updated : file))
+      : files.filter(file => file.id !== updated.id)
+  );
+};
+
+const removeFromCachedLists = (queryClient: QueryClient, userId: string | undefined, fileId: string) => {
+  updateCachedLists(queryClient, userId, files => files.filter(file => file.id !== fileId));
+};
+
+const isInCachedLists = (queryClient: QueryClient, userId: string | undefined, fileId: string) =>
+  queryClient.getQueriesData<FilePages>({ queryKey: fileKeys.all(userId) }).some(([, data]) =>
+    data?.pages.some(page => page.files.some(file => file.id === fileId))
+  );
+
+// Takes a snapshot of every cached list before an optimistic update so it can be rolled back.
+const snapshotLists = async (queryClient: QueryClient, userId: string | undefined) => {
+  await queryClient.cancelQueries({ queryKey: fileKeys.all(userId) });
+  return queryClient.getQueriesData<FilePages>({ queryKey: fileKeys.all(userId) });
+};
+
+const restoreLists = (queryClient: QueryClient, snapshot: [readonly unknown[], FilePages | undefined][] | undefined) => {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData<FilePages>(key, data));
+};
+
+// A new version or a restored one changes the file's name, size and upload
+// date, which can move it within sorted and filtered lists; refetch them.
+const onVersionChanged = (queryClient: QueryClient, userId: string | undefined, updated: FileMetadata) => {
+  replaceInCachedLists(queryClient, userId, updated);
+  queryClient.invalidateQueries({ queryKey: fileKeys.all(userId) });
+  queryClient.invalidateQueries({ queryKey: fileVersionsKey(updated.id) });
+  queryClient.invalidateQueries({ queryKey: storageUsageKey(userId) });
+};
+
+export function useUserFiles(folderId: string | null, query: FileQuery) {
+  const { user } = useAuth();
+
+  const result = useInfiniteQuery({
+    queryKey: fileKeys.list(user?.id, folderId, query),
+    queryFn: ({ pageParam }) => getUserFiles(user!.id, folderId, query, pageParam),
+    initialPageParam: null as FileCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled: !!user,
+    staleTime: FILES_STALE_TIME,
+  });
+
+  const files = useMemo(() => result.data?.pages.flatMap(page => page.files) ?? [], [result.data]);
+
+  return { ...result, files };
+}
+
+export function useStorageUsage() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: storageUsageKey(user?.id),
+    queryFn: getStorageUsage,
+    enabled: !!user,
+    staleTime: FILES_STALE_TIME,
+  });
+}
+
+export function useUpdateCachedFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useCallback((updated: FileMetadata) => {
+    replaceInCachedLists(queryClient, user?.id, updated);
+  }, [queryClient, user?.id]);
+}
+
+// Keeps every cached file list in sync with changes made in other tabs and devices.
+export function useFileRealtime() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToFileChanges(userId, {
+      onInsert: file => {
+        addToCachedLists(queryClient, userId, file);
+        queryClient.invalidateQueries({ queryKey: storageUsageKey(userId) });
+      },
+      onUpdate: file => {
+        // A file restored from the trash elsewhere has no place in the cache yet
+        const restored = !file.deletedAt && !isInCachedLists(queryClient, userId, file.id);
+        replaceInCachedLists(queryClient, userId, file);
+        // The change may move the file in or out of a filter or sort position
+        queryClient.invalidateQueries({
+          queryKey: fileKeys.all(userId),
+          predicate: query => {
+            const key = query.queryKey as FileListKey;
+            const [, , , fileQuery] = key;
+            return isFilteringFiles(fileQuery) || fileQuery.sort !== "date" || (restored && belongsInList(file, key));
+          },
+        });
+        queryClient.invalidateQueries({ queryKey: trashKey(userId) });
+        queryClient.invalidateQueries({ queryKey: fileVersionsKey(file.id) });
+      },
+      onDelete: fileId => {
+        removeFromCachedLists(queryClient, userId, fileId);
+        queryClient.invalidateQueries({ queryKey: trashKey(userId) });
+        queryClient.invalidateQueries({ queryKey: storageUsageKey(userId) });
+      },
+      onResubscribe: () => queryClient.invalidateQueries({ queryKey: fileKeys.all(userId) }),
+    });
+  }, [queryClient, userId]);
+}
+
+export function useTrashedFiles() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: trashKey(user?.id),
+    queryFn: () => getTrashedFiles(user!.id),
+    enabled: !!user,
+    staleTime: FILES_STALE_TIME,
+  });
+}
+
+// The card disappears from the file lists right away and comes back if moving
+// it to the trash fails.
+export function useTrashFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fileId: string) => trashFile(fileId, user!.id),
+    onMutate: async fileId => {
+      const snapshot = await snapshotLists(queryClient, user?.id);
+      removeFromCachedLists(queryClient, user?.id, fileId);
+      return { snapshot };
+    },
+    onError: (_error, _fileId, context) => restoreLists(queryClient, context?.snapshot),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) });
+      queryClient.invalidateQueries({ queryKey: trashKey(user?.id) });
+    },
+  });
+}
+
+// A restored file goes back to its old place in the sort order, so the
+// lists are refetched rather than patched.
+export function useRestoreFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fileId: string) => restoreFile(fileId, user!.id),
+    onMutate: async fileId => {
+      await queryClient.cancelQueries({ queryKey: trashKey(user?.id) });
+      const previous = queryClient.getQueryData<FileMetadata[]>(trashKey(user?.id));
+      queryClient.setQueryData<FileMetadata[]>(trashKey(user?.id), files => files?.filter(file => file.id !== fileId));
+      return { previous };
+    },
+    onError: (_error, _fileId, context) => queryClient.setQueryData(trashKey(user?.id), context?.previous),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) });
+      queryClient.invalidateQueries({ queryKey: trashKey(user?.id) });
+    },
+  });
+}
+
+// Deletes a file from the trash for good.
+export function useDeleteFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fileId: string) => deleteFile(fileId),
+    onMutate: async fileId => {
+      await queryClient.cancelQueries({ queryKey: trashKey(user?.id) });
+      const previous = queryClient.getQueryData<FileMetadata[]>(trashKey(user?.id));
+      queryClient.setQueryData<FileMetadata[]>(trashKey(user?.id), files => files?.filter(file => file.id !== fileId));
+      return { previous };
+    },
+    // A file that is already gone stays out of the list
+    onError: (error, _fileId, context) => {
+      if (fileErrorReason(error).kind !== "not_found") {
+        queryClient.setQueryData(trashKey(user?.id), context?.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: trashKey(user?.id) });
+      queryClient.invalidateQueries({ queryKey: storageUsageKey(user?.id) });
+    },
+  });
+}
+
+export function useUpdateExpiration() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileId, expiresIn }: { fileId: string; expiresIn: number | null }) =>
+      updateFileExpiration(fileId, user!.id, expiresIn),
+    onMutate: async ({ fileId, expiresIn }) => {
+      const snapshot = await snapshotLists(queryClient, user?.id);
+      const expiresAt = expiresIn ? new Date(Date.now() + expiresIn * 86400000) : null;
+      updateCachedLists(queryClient, user?.id, files =>
+        files.map(file => (file.id === fileId ? { ...file, expiresAt } : file))
+      );
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreLists(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) }),
+  });
+}
+
+interface UploadFileVariables {
+  file: File;
+  expiresIn: number | null;
+  options?: UploadOptions;
+}
+
+// Nothing to show optimistically until the row exists, so the new file is
+// placed in the cache once the upload succeeds. Lists it cannot be placed in
+// (filtered or differently sorted) are refetched instead.
+export function useUploadFile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, expiresIn, options }: UploadFileVariables) =>
+      uploadFile(file, user!.id, expiresIn, options),
+    onSuccess: uploaded => {
+      addToCachedLists(queryClient, user?.id, uploaded);
+      queryClient.invalidateQueries({ queryKey: storageUsageKey(user?.id) });
+    },
+  });
+}
+
+export function useBatchFiles() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileIds, batch }: { fileIds: string[]; batch: BatchAction }) =>
+      runBatchAction(fileIds, batch),
+    onSuccess: (results, { batch }) => {
+      if (batch.action === "trash") {
+        results
+          .filter(result => result.ok)
+          .forEach(result => removeFromCachedLists(queryClient, user?.id, result.id));
+      }
+    },
+    // Moves and expiry changes can reorder or filter lists; refetch rather than patch
+    onSettled: (_results, _error, { batch }) => {
+      queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) });
+      if (batch.action === "trash" || batch.action === "restore" || batch.action === "delete") {
+        queryClient.invalidateQueries({ queryKey: trashKey(user?.id) });
+      }
+      if (batch.action === "delete") {
+        queryClient.invalidateQueries({ queryKey: storageUsageKey(user?.id) });
+      }
+    },
+  });
+}
+
+export function useFileVersions(fileId: string, enabled = true) {
+  return useQuery({
+    queryKey: fileVersionsKey(fileId),
+    queryFn: () => getFileVersions(fileId),
+    enabled,
+    staleTime: FILES_STALE_TIME,
+  });
+}
+
+interface UploadFileVersionVariables {
+  fileId: string;
+  file: File;
+  options?: Pick<UploadOptions, "signal" | "onProgress">;
+}
+
+export function useUploadFileVersion() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileId, file, options }: UploadFileVersionVariables) =>
+      uploadFileVersion(fileId, file, user!.id, options),
+    onSuccess: updated => onVersionChanged(queryClient, user?.id, updated),
+  });
+}
+
+export function useRestoreFileVersion() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileId, version }: { fileId: string; version: number }) =>
+      restoreFileVersion(fileId, version),
+    onSuccess: updated => onVersionChanged(queryClient, user?.id, updated),
+  });
+}
+
+export function useDeleteFileVersion() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ fileId, version }: { fileId: string; version: number }) =>
+      deleteFileVersion(fileId, version),
+    onMutate: async ({ fileId, version }) => {
+      await queryClient.cancelQueries({ queryKey: fileVersionsKey(fileId) });
+      const previous = queryClient.getQueryData<FileVersion[]>(fileVersionsKey(fileId));
+      queryClient.setQueryData<FileVersion[]>(fileVersionsKey(fileId), versions =>
+        versions?.filter(entry => entry.version !== version)
+      );
+      return { previous };
+    },
+    // A version that is already gone stays out of the list
+    onError: (error, { fileId }, context) => {
+      if (fileErrorReason(error).kind !== "not_found") {
+        queryClient.setQueryData(fileVersionsKey(fileId), context?.previous);
+      }
+    },
+    onSettled: (_data, _error, { fileId }) => {
+      queryClient.invalidateQueries({ queryKey: fileVersionsKey(fileId) });
+      queryClient.invalidateQueries({ queryKey: storageUsageKey(user?.id) });
+    },
+  });
+}
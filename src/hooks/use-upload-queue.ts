@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { FileMetadata, UploadProgress } from "@/services/fileService";
+import { FileError, fileErrorReason } from "@/services/fileErrors";
+import { SelectedFile } from "@/lib/fileEntries";
+
+export type UploadStatus = "pending" | "queued" | "uploading" | "done" | "error" | "cancelled";
+
+// Chosen when the user starts a batch; later changes don't affect queued items.
+export interface UploadSettings {
+  expiresIn: number | null;
+  folderId: string | null;
+  password: string | null;
+  maxDownloads: number | null;
+}
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  relativePath: string;
+  status: UploadStatus;
+  settings: UploadSettings;
+  error?: FileError;
+  loaded: number;
+  bytesPerSecond: number | null;
+}
+
+interface UseUploadQueueOptions {
+  upload: (
+    item: UploadItem,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void
+  ) => Promise<FileMetadata>;
+  onUploaded?: (file: FileMetadata) => void;
+  concurrency?: number;
+}
+
+interface SpeedSample {
+  time: number;
+  loaded: number;
+  bytesPerSecond: number | null;
+}
+
+let nextItemId = 0;
+
+// Weight of the newest sample in the moving average; lower is smoother.
+const SPEED_SMOOTHING = 0.3;
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+export function useUploadQueue({ upload, onUploaded, concurrency = 3 }: UseUploadQueueOptions) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const speedSamples = useRef(new Map<string, SpeedSample>());
+
+  // Keep the latest callbacks without restarting the scheduler on every render.
+  const uploadRef = useRef(upload);
+  const onUploadedRef = useRef(onUploaded);
+  uploadRef.current = upload;
+  onUploadedRef.current = onUploaded;
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const handleProgress = useCallback((id: string, { loaded }: UploadProgress) => {
+    const now = performance.now();
+    const previous = speedSamples.current.get(id);
+    let bytesPerSecond = previous?.bytesPerSecond ?? null;
+
+    if (previous && now > previous.time) {
+      const instant = ((loaded - previous.loaded) * 1000) / (now - previous.time);
+      bytesPerSecond = bytesPerSecond === null
+        ? instant
+        : SPEED_SMOOTHING * instant + (1 - SPEED_SMOOTHING) * bytesPerSecond;
+    }
+
+    speedSamples.current.set(id, { time: now, loaded, bytesPerSecond });
+    updateItem(id, { loaded, bytesPerSecond });
+  }, [updateItem]);
+
+  const start = useCallback((item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    speedSamples.current.set(item.id, { time: performance.now(), loaded: 0, bytesPerSecond: null });
+    updateItem(item.id, { status: "uploading", error: undefined, loaded: 0, bytesPerSecond: null });
+
+    uploadRef.current(item, controller.signal, progress => handleProgress(item.id, progress))
+      .then(uploaded => {
+        updateItem(item.id, { status: "done" });
+        onUploadedRef.current?.(uploaded);
+      })
+      .catch(error => {
+        if (isAbortError(error)) {
+          updateItem(item.id, { status: "cancelled" });
+        } else {
+          updateItem(item.id, { status: "error", error: fileErrorReason(error) });
+        }
+      })
+      .finally(() => {
+        controllers.current.delete(item.id);
+        speedSamples.current.delete(item.id);
+      });
+  }, [updateItem, handleProgress]);
+
+  useEffect(() => {
+    const active = items.filter(item => item.status === "uploading").length;
+    const slots = concurrency - active;
+    if (slots <= 0) return;
+
+    items
+      .filter(item => item.status === "queued" && !controllers.current.has(item.id))
+      .slice(0, slots)
+      .forEach(start);
+  }, [items, concurrency, start]);
+
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  const addFiles = useCallback((files: SelectedFile[]) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(({ file, relativePath }) => ({
+        id: `upload-${++nextItemId}`,
+        file,
+        relativePath,
+        status: "pending" as const,
+        settings: { expiresIn: null, folderId: null, password: null, maxDownloads: null },
+        loaded: 0,
+        bytesPerSecond: null,
+      })),
+    ]);
+  }, []);
+
+  const startPending = useCallback((settings: UploadSettings) => {
+    setItems(prev =>
+      prev.map(item => (item.status === "pending" ? { ...item, status: "queued", settings } : item))
+    );
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: "queued", error: undefined });
+  }, [updateItem]);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(id, { status: "cancelled" });
+    }
+  }, [updateItem]);
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== "done" && item.status !== "cancelled"));
+  }, []);
+
+  return { items, addFiles, startPending, retry, cancel, remove, clearFinished };
+}
@@ -9,39 +9,486 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      collection_files: {
+        Row: {
+          added_at: string
+          collection_id: string
+          file_id: string
+          position: number
+        }
+        Insert: {
+          added_at?: string
+          collection_id: string
+          file_id: string
+          position?: number
+        }
+        Update: {
+          added_at?: string
+          collection_id?: string
+          file_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_files_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_files_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_password_attempts: {
+        Row: {
+          client_key: string
+          collection_id: string
+          failed_count: number
+          last_failed_at: string
+          locked_until: string | null
+        }
+        Insert: {
+          client_key: string
+          collection_id: string
+          failed_count?: number
+          last_failed_at?: string
+          locked_until?: string | null
+        }
+        Update: {
+          client_key?: string
+          collection_id?: string
+          failed_count?: number
+          last_failed_at?: string
+          locked_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_password_attempts_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collection_passwords: {
+        Row: {
+          collection_id: string
+          password_hash: string
+          updated_at: string
+        }
+        Insert: {
+          collection_id: string
+          password_hash: string
+          updated_at?: string
+        }
+        Update: {
+          collection_id?: string
+          password_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_passwords_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: true
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          name: string
+          password_protected: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          name: string
+          password_protected?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          name?: string
+          password_protected?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
       file_metadata: {
         Row: {
+          deleted_at: string | null
+          download_count: number
           expires_at: string | null
           file_type: string
+          folder_id: string | null
           id: string
+          max_downloads: number | null
           original_name: string
-          share_url: string
+          password_protected: boolean
+          share_slug: string | null
           size: number
           storage_path: string
+          thumbnail_path: string | null
           upload_date: string
           user_id: string
+          version: number
         }
         Insert: {
+          deleted_at?: string | null
+          download_count?: number
           expires_at?: string | null
           file_type: string
+          folder_id?: string | null
           id?: string
+          max_downloads?: number | null
           original_name: string
-          share_url: string
+          password_protected?: boolean
+          share_slug?: string | null
           size: number
           storage_path: string
+          thumbnail_path?: string | null
           upload_date?: string
           user_id: string
+          version?: number
         }
         Update: {
+          deleted_at?: string | null
+          download_count?: number
           expires_at?: string | null
           file_type?: string
+          folder_id?: string | null
           id?: string
+          max_downloads?: number | null
           original_name?: string
-          share_url?: string
+          password_protected?: boolean
+          share_slug?: string | null
           size?: number
           storage_path?: string
+          thumbnail_path?: string | null
           upload_date?: string
           user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_metadata_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_versions: {
+        Row: {
+          created_at: string
+          file_id: string
+          file_type: string
+          id: string
+          original_name: string
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          version: number
+        }
+        Insert: {
+          created_at: string
+          file_id: string
+          file_type: string
+          id?: string
+          original_name: string
+          size: number
+          storage_path: string
+          thumbnail_path?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          file_type?: string
+          id?: string
+          original_name?: string
+          size?: number
+          storage_path?: string
+          thumbnail_path?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_versions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          id: string
+          max_file_size: number
+          name: string
+          storage_quota: number
+        }
+        Insert: {
+          id: string
+          max_file_size: number
+          name: string
+          storage_quota?: number
+        }
+        Update: {
+          id?: string
+          max_file_size?: number
+          name?: string
+          storage_quota?: number
+        }
+        Relationships: []
+      }
+      share_events: {
+        Row: {
+          event_type: string
+          file_id: string
+          id: number
+          occurred_at: string
+          referrer: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          event_type: string
+          file_id: string
+          id?: never
+          occurred_at?: string
+          referrer?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          event_type?: string
+          file_id?: string
+          id?: never
+          occurred_at?: string
+          referrer?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_events_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          file_id: string
+          id: string
+          is_custom: boolean
+          revoked_at: string | null
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          file_id: string
+          id?: string
+          is_custom?: boolean
+          revoked_at?: string | null
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          id?: string
+          is_custom?: boolean
+          revoked_at?: string | null
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_password_attempts: {
+        Row: {
+          client_key: string
+          failed_count: number
+          file_id: string
+          last_failed_at: string
+          locked_until: string | null
+        }
+        Insert: {
+          client_key: string
+          failed_count?: number
+          file_id: string
+          last_failed_at?: string
+          locked_until?: string | null
+        }
+        Update: {
+          client_key?: string
+          failed_count?: number
+          file_id?: string
+          last_failed_at?: string
+          locked_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_password_attempts_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_passwords: {
+        Row: {
+          file_id: string
+          password_hash: string
+          updated_at: string
+        }
+        Insert: {
+          file_id: string
+          password_hash: string
+          updated_at?: string
+        }
+        Update: {
+          file_id?: string
+          password_hash?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_passwords_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: true
+            referencedRelation: "file_metadata"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_slug_settings: {
+        Row: {
+          alphabet: string
+          id: boolean
+          slug_length: number
+        }
+        Insert: {
+          alphabet?: string
+          id?: boolean
+          slug_length?: number
+        }
+        Update: {
+          alphabet?: string
+          id?: boolean
+          slug_length?: number
+        }
+        Relationships: []
+      }
+      storage_deletions: {
+        Row: {
+          bucket: string
+          file_id: string | null
+          id: number
+          last_error: string | null
+          path: string
+          queued_at: string
+        }
+        Insert: {
+          bucket: string
+          file_id?: string | null
+          id?: never
+          last_error?: string | null
+          path: string
+          queued_at?: string
+        }
+        Update: {
+          bucket?: string
+          file_id?: string | null
+          id?: never
+          last_error?: string | null
+          path?: string
+          queued_at?: string
+        }
+        Relationships: []
+      }
+      zip_downloads: {
+        Row: {
+          archive_name: string
+          created_at: string
+          entries: Json
+          expires_at: string
+          id: string
+          redeemed_at: string | null
+        }
+        Insert: {
+          archive_name: string
+          created_at?: string
+          entries: Json
+          expires_at?: string
+          id?: string
+          redeemed_at?: string | null
+        }
+        Update: {
+          archive_name?: string
+          created_at?: string
+          entries?: Json
+          expires_at?: string
+          id?: string
+          redeemed_at?: string | null
         }
         Relationships: []
       }
@@ -50,7 +497,247 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_file_version: {
+        Args: {
+          p_file_id: string
+          p_storage_path: string
+          p_original_name: string
+          p_file_type: string
+        }
+        Returns: {
+          deleted_at: string | null
+          download_count: number
+          expires_at: string | null
+          file_type: string
+          folder_id: string | null
+          id: string
+          max_downloads: number | null
+          original_name: string
+          password_protected: boolean
+          share_slug: string | null
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          upload_date: string
+          user_id: string
+          version: number
+        }
+      }
+      check_collection_password: {
+        Args: {
+          p_collection_id: string
+          p_client_key: string
+          p_password: string
+          p_max_attempts?: number
+          p_lockout?: unknown
+          p_max_collection_attempts?: number
+        }
+        Returns: Json
+      }
+      check_share_password: {
+        Args: {
+          p_file_id: string
+          p_client_key: string
+          p_password: string
+          p_max_attempts?: number
+          p_lockout?: unknown
+          p_max_file_attempts?: number
+        }
+        Returns: Json
+      }
+      collection_expired_at: {
+        Args: { p_collection_id: string }
+        Returns: string
+      }
+      consume_share_download: {
+        Args: { p_file_id: string }
+        Returns: number
+      }
+      consume_share_downloads: {
+        Args: { p_file_ids: string[] }
+        Returns: string
+      }
+      current_plan: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          max_file_size: number
+          name: string
+          storage_quota: number
+        }
+      }
+      current_storage_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      delete_versions_missing_objects: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      find_files_missing_objects: {
+        Args: { p_limit?: number }
+        Returns: {
+          id: string
+        }[]
+      }
+      folder_file_ids: {
+        Args: { p_folder_id: string }
+        Returns: string[]
+      }
+      folder_path: {
+        Args: { p_folder_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          user_id: string
+        }[]
+      }
+      generate_share_slug: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_collection_files: {
+        Args: { p_collection_id: string }
+        Returns: {
+          deleted_at: string | null
+          download_count: number
+          expires_at: string | null
+          file_type: string
+          folder_id: string | null
+          id: string
+          max_downloads: number | null
+          original_name: string
+          password_protected: boolean
+          share_slug: string | null
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          upload_date: string
+          user_id: string
+          version: number
+        }[]
+      }
+      get_shared_collection: {
+        Args: { p_collection_id: string }
+        Returns: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          name: string
+          password_protected: boolean
+          user_id: string
+        }[]
+      }
+      get_shared_file: {
+        Args: { p_slug: string }
+        Returns: {
+          deleted_at: string | null
+          download_count: number
+          expires_at: string | null
+          file_type: string
+          folder_id: string | null
+          id: string
+          max_downloads: number | null
+          original_name: string
+          password_protected: boolean
+          share_slug: string | null
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          upload_date: string
+          user_id: string
+          version: number
+        }[]
+      }
+      get_shared_file_versions: {
+        Args: { p_file_id: string }
+        Returns: {
+          created_at: string
+          file_id: string
+          file_type: string
+          id: string
+          original_name: string
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          version: number
+        }[]
+      }
+      has_free_storage: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_share_link: {
+        Args: { p_file_id: string; p_slug?: string }
+        Returns: string
+      }
+      queue_orphaned_objects: {
+        Args: { p_min_age?: unknown }
+        Returns: number
+      }
+      regenerate_share_link: {
+        Args: { p_file_id: string }
+        Returns: string
+      }
+      restore_file_version: {
+        Args: { p_file_id: string; p_version: number }
+        Returns: {
+          deleted_at: string | null
+          download_count: number
+          expires_at: string | null
+          file_type: string
+          folder_id: string | null
+          id: string
+          max_downloads: number | null
+          original_name: string
+          password_protected: boolean
+          share_slug: string | null
+          size: number
+          storage_path: string
+          thumbnail_path: string | null
+          upload_date: string
+          user_id: string
+          version: number
+        }
+      }
+      revoke_share_link: {
+        Args: { p_file_id: string }
+        Returns: undefined
+      }
+      set_collection_password: {
+        Args: { p_collection_id: string; p_password: string }
+        Returns: undefined
+      }
+      set_custom_share_slug: {
+        Args: { p_file_id: string; p_slug: string }
+        Returns: string
+      }
+      set_share_password: {
+        Args: { p_file_id: string; p_password: string }
+        Returns: undefined
+      }
+      share_expired_at: {
+        Args: { p_slug: string }
+        Returns: string
+      }
+      share_revoked_at: {
+        Args: { p_slug: string }
+        Returns: string
+      }
+      storage_quota_for_user: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      storage_used_by_user: {
+        Args: { p_user_id: string }
+        Returns: number
+      }
+      trash_folder_files: {
+        Args: { p_folder_id: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
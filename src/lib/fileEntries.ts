@@ -0,0 +1,63 @@
+export interface SelectedFile {
+  file: File;
+  relativePath: string;
+}
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries hands back directory contents in batches, so keep reading
+// until it returns an empty list.
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry): Promise<SelectedFile[]> => {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    return [{ file, relativePath: entry.fullPath.replace(/^\//, "") }];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(walkEntry));
+    return nested.flat();
+  }
+
+  return [];
+};
+
+// Every file from a drop event, including those inside dropped folders. Falls
+// back to the flat file list when the browser has no entry API.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<SelectedFile[]> => {
+  // Entries must be grabbed synchronously: the DataTransfer is emptied as
+  // soon as the drop handler yields.
+  const entries = Array.from(dataTransfer.items ?? [])
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return fromFileList(dataTransfer.files);
+  }
+
+  const nested = await Promise.all(entries.map(walkEntry));
+  return nested.flat();
+};
+
+// A file input's selection. Folder inputs fill in webkitRelativePath, which
+// keeps the folder structure.
+export const fromFileList = (files: FileList | null): SelectedFile[] =>
+  Array.from(files ?? []).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || file.name,
+  }));
@@ -0,0 +1,33 @@
+import { FileError } from "@/services/fileErrors";
+import { formatFileSize } from "@/services/fileService";
+
+// Plain-language explanation of a fileService failure. Callers put their own
+// context in front and decide on the recovery action.
+export const describeFileError = (reason: FileError): string => {
+  switch (reason.kind) {
+    case "quota_exceeded":
+      return reason.available !== null
+        ? `Not enough storage left (${formatFileSize(reason.available)} free).`
+        : "Your storage is full.";
+    case "too_large":
+      return reason.maxSize !== null
+        ? `The file exceeds the maximum size of ${formatFileSize(reason.maxSize)}.`
+        : "The file is too large.";
+    case "not_found":
+      return "It no longer exists.";
+    case "expired":
+      return reason.expiredAt
+        ? `The link expired on ${reason.expiredAt.toLocaleDateString()}.`
+        : "The link has expired.";
+    case "forbidden":
+      return "You don't have access. Your session may have expired.";
+    case "network":
+      return "Couldn't reach the server. Check your connection.";
+    case "conflict":
+      return "It was changed somewhere else at the same time.";
+    case "invalid":
+      return "Some of the values are not valid.";
+    case "unknown":
+      return "Something went wrong on our side.";
+  }
+};
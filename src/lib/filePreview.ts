@@ -0,0 +1,59 @@
+export type PreviewKind = "image" | "pdf" | "audio" | "video" | "markdown" | "code" | "text" | "none";
+
+// Text-based previews download the whole file, so keep them small.
+export const MAX_TEXT_PREVIEW_SIZE = 512 * 1024;
+
+// highlight.js language names by file extension
+const CODE_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cs: "csharp",
+  php: "php",
+  sh: "bash",
+  bash: "bash",
+  sql: "sql",
+  json: "json",
+  yml: "yaml",
+  yaml: "yaml",
+  xml: "xml",
+  html: "xml",
+  css: "css",
+  scss: "scss",
+};
+
+// Browsers render these image types natively; anything else (HEIC, PSD, ...) has no preview.
+const PREVIEWABLE_IMAGES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif", "image/svg+xml", "image/bmp"];
+
+const extensionOf = (fileName: string) => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+export const getCodeLanguage = (fileName: string): string | null =>
+  CODE_LANGUAGES[extensionOf(fileName)] ?? null;
+
+export const getPreviewKind = (fileType: string, fileName: string): PreviewKind => {
+  const extension = extensionOf(fileName);
+
+  if (PREVIEWABLE_IMAGES.includes(fileType)) return "image";
+  if (fileType === "application/pdf") return "pdf";
+  if (fileType.startsWith("audio/")) return "audio";
+  if (fileType.startsWith("video/")) return "video";
+  if (fileType === "text/markdown" || extension === "md" || extension === "markdown") return "markdown";
+  if (getCodeLanguage(fileName)) return "code";
+  if (fileType.startsWith("text/") || extension === "txt" || extension === "log" || extension === "csv") return "text";
+
+  return "none";
+};
+
+export const isTextPreview = (kind: PreviewKind) =>
+  kind === "markdown" || kind === "code" || kind === "text";
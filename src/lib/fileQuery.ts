@@ -0,0 +1,156 @@
+// Search, filter and sort state for the dashboard file list. It lives in the
+// URL query string, so every field round-trips through plain strings.
+
+export type FileTypeFilter = "all" | "image" | "video" | "audio" | "document" | "archive";
+export type ExpiryFilter = "all" | "active" | "expiring" | "expired" | "never";
+export type FileSortField = "date" | "name" | "size";
+export type SortOrder = "asc" | "desc";
+
+export interface FileQuery {
+  search: string;
+  type: FileTypeFilter;
+  // Bytes
+  minSize: number | null;
+  maxSize: number | null;
+  // yyyy-mm-dd, inclusive, in the viewer's time zone
+  uploadedFrom: string | null;
+  uploadedTo: string | null;
+  expiry: ExpiryFilter;
+  sort: FileSortField;
+  order: SortOrder;
+}
+
+export const DEFAULT_FILE_QUERY: FileQuery = {
+  search: "",
+  type: "all",
+  minSize: null,
+  maxSize: null,
+  uploadedFrom: null,
+  uploadedTo: null,
+  expiry: "all",
+  sort: "date",
+  order: "desc",
+};
+
+// Files counted as "expiring" when their link ends within this many days
+export const EXPIRING_SOON_DAYS = 7;
+
+export const FILE_TYPE_FILTERS: { value: FileTypeFilter; label: string; prefix?: string; types?: string[] }[] = [
+  { value: "all", label: "All types" },
+  { value: "image", label: "Images", prefix: "image/" },
+  { value: "video", label: "Videos", prefix: "video/" },
+  { value: "audio", label: "Audio", prefix: "audio/" },
+  {
+    value: "document",
+    label: "Documents",
+    types: [
+      "application/pdf",
+      "text/plain",
+      "text/markdown",
+      "text/csv",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-powerpoint",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+  {
+    value: "archive",
+    label: "Archives",
+    types: [
+      "application/zip",
+      "application/x-zip-compressed",
+      "application/x-tar",
+      "application/gzip",
+      "application/x-7z-compressed",
+      "application/vnd.rar",
+    ],
+  },
+];
+
+// The FILE_TYPE_FILTERS group a MIME type falls into, or "other".
+export const getFileTypeCategory = (mimeType: string): Exclude<FileTypeFilter, "all"> | "other" => {
+  const match = FILE_TYPE_FILTERS.find(filter =>
+    filter.value !== "all" &&
+    ((filter.prefix && mimeType.startsWith(filter.prefix)) || filter.types?.includes(mimeType))
+  );
+  return match && match.value !== "all" ? match.value : "other";
+};
+
+export const EXPIRY_FILTERS: { value: ExpiryFilter; label: string }[] = [
+  { value: "all", label: "Any expiry" },
+  { value: "active", label: "Active links" },
+  { value: "expiring", label: `Expiring within ${EXPIRING_SOON_DAYS} days` },
+  { value: "expired", label: "Expired" },
+  { value: "never", label: "Never expires" },
+];
+
+export const SORT_OPTIONS: { value: `${FileSortField}-${SortOrder}`; label: string }[] = [
+  { value: "date-desc", label: "Newest first" },
+  { value: "date-asc", label: "Oldest first" },
+  { value: "name-asc", label: "Name (A–Z)" },
+  { value: "name-desc", label: "Name (Z–A)" },
+  { value: "size-desc", label: "Largest first" },
+  { value: "size-asc", label: "Smallest first" },
+];
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const parseSize = (value: string | null) => {
+  const size = value ? Number(value) : NaN;
+  return Number.isFinite(size) && size >= 0 ? size : null;
+};
+
+const parseDate = (value: string | null) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+export const parseFileQuery = (params: URLSearchParams): FileQuery => ({
+  search: params.get("q") ?? "",
+  type: oneOf(params.get("type"), FILE_TYPE_FILTERS.map(filter => filter.value), DEFAULT_FILE_QUERY.type),
+  minSize: parseSize(params.get("minSize")),
+  maxSize: parseSize(params.get("maxSize")),
+  uploadedFrom: parseDate(params.get("from")),
+  uploadedTo: parseDate(params.get("to")),
+  expiry: oneOf(params.get("expiry"), EXPIRY_FILTERS.map(filter => filter.value), DEFAULT_FILE_QUERY.expiry),
+  sort: oneOf(params.get("sort"), ["date", "name", "size"] as const, DEFAULT_FILE_QUERY.sort),
+  order: oneOf(params.get("order"), ["asc", "desc"] as const, DEFAULT_FILE_QUERY.order),
+});
+
+// Writes the query into `params`, leaving unrelated keys (e.g. the folder) alone.
+// Defaults are omitted to keep bookmarked URLs short.
+export const writeFileQuery = (params: URLSearchParams, query: FileQuery): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const entries: [string, string | null][] = [
+    ["q", query.search.trim() || null],
+    ["type", query.type !== DEFAULT_FILE_QUERY.type ? query.type : null],
+    ["minSize", query.minSize !== null ? String(query.minSize) : null],
+    ["maxSize", query.maxSize !== null ? String(query.maxSize) : null],
+    ["from", query.uploadedFrom],
+    ["to", query.uploadedTo],
+    ["expiry", query.expiry !== DEFAULT_FILE_QUERY.expiry ? query.expiry : null],
+    ["sort", query.sort !== DEFAULT_FILE_QUERY.sort ? query.sort : null],
+    ["order", query.order !== DEFAULT_FILE_QUERY.order ? query.order : null],
+  ];
+
+  for (const [key, value] of entries) {
+    if (value === null) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  }
+  return next;
+};
+
+// Searching or filtering looks across all folders; sorting alone does not.
+export const isFilteringFiles = (query: FileQuery) =>
+  query.search.trim() !== "" ||
+  query.type !== "all" ||
+  query.minSize !== null ||
+  query.maxSize !== null ||
+  query.uploadedFrom !== null ||
+  query.uploadedTo !== null ||
+  query.expiry !== "all";
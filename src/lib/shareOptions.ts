@@ -0,0 +1,13 @@
+export const UNLIMITED_DOWNLOADS = "unlimited";
+
+export const DOWNLOAD_LIMIT_OPTIONS = [
+  { value: UNLIMITED_DOWNLOADS, label: "Unlimited downloads" },
+  { value: "1", label: "1 download (burn after first download)" },
+  { value: "5", label: "5 downloads" },
+  { value: "10", label: "10 downloads" },
+  { value: "25", label: "25 downloads" },
+  { value: "100", label: "100 downloads" },
+];
+
+export const parseDownloadLimit = (value: string): number | null =>
+  value === UNLIMITED_DOWNLOADS ? null : parseInt(value, 10);
@@ -0,0 +1,60 @@
+// Poster frames for videos, which the thumbnail edge function cannot decode.
+// They are drawn in the uploading browser, which already has the file and a
+// video decoder, and stored next to the server-made ones. The video is read
+// as a stream, so size doesn't matter.
+
+const THUMBNAIL_SIZE = 320;
+const JPEG_QUALITY = 0.8;
+const VIDEO_LOAD_TIMEOUT_MS = 10000;
+
+export const needsClientThumbnail = (fileType: string) => fileType.startsWith("video/");
+
+const scaleToFit = (width: number, height: number) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+
+const captureVideoFrame = (file: File): Promise<Blob | null> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    const timeout = setTimeout(() => finish(() => resolve(null)), VIDEO_LOAD_TIMEOUT_MS);
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timeout);
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+      settle();
+    };
+
+    video.muted = true;
+    video.preload = "metadata";
+    video.onerror = () => finish(() => resolve(null));
+    video.onloadedmetadata = () => {
+      // Skip past the first second, which is often a black fade-in.
+      video.currentTime = Math.min(1, video.duration / 2 || 0);
+    };
+    video.onseeked = () => {
+      const { width, height } = scaleToFit(video.videoWidth, video.videoHeight);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        finish(() => resolve(null));
+        return;
+      }
+      context.drawImage(video, 0, 0, width, height);
+      canvasToJpeg(canvas).then(
+        blob => finish(() => resolve(blob)),
+        error => finish(() => reject(error))
+      );
+    };
+    video.src = url;
+  });
+
+export const renderClientThumbnail = (file: File): Promise<Blob | null> => captureVideoFrame(file);
@@ -1,52 +1,138 @@
-import { useState, useEffect } from "react";
-import { Navigate } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
-import { getUserFiles, FileMetadata } from "@/services/fileService";
+import { fileKeys, trashKey, useFileRealtime, useUserFiles } from "@/hooks/use-files";
+import { getFolders, getFolderPath, Folder } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
 import { Layout } from "@/components/Layout";
 import { FileUploader } from "@/components/FileUploader";
 import { FileList } from "@/components/FileList";
+import { FolderBrowser } from "@/components/FolderBrowser";
+import { FileFilters } from "@/components/FileFilters";
+import { CollectionsPanel } from "@/components/CollectionsPanel";
+import { StorageUsageMeter } from "@/components/StorageUsageMeter";
+import { TrashView } from "@/components/TrashView";
+import { Button } from "@/components/ui/button";
+import { FileQuery, isFilteringFiles, parseFileQuery, writeFileQuery } from "@/lib/fileQuery";
+import { describeFileError } from "@/lib/fileErrorMessages";
 import { toast } from "sonner";
+import { ArrowLeft, Trash } from "lucide-react";
 
 const Dashboard = () => {
   const { user, isAuthenticated, isLoading } = useAuth();
-  const [files, setFiles] = useState<FileMetadata[]>([]);
-  const [loadingFiles, setLoadingFiles] = useState(true);
+  // The open folder and the search/filter/sort state live in the URL so views can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const currentFolderId = searchParams.get("folder");
+  const showingTrash = searchParams.get("view") === "trash";
+  const fileQuery = useMemo(() => parseFileQuery(searchParams), [searchParams]);
+  const filtering = isFilteringFiles(fileQuery);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [folderPath, setFolderPath] = useState<Folder[]>([]);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
 
-  const fetchFiles = async () => {
+  const {
+    files,
+    isPending: loadingFiles,
+    isError: filesFailed,
+    error: filesError,
+    refetch: refetchFiles,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useUserFiles(currentFolderId, fileQuery);
+  useFileRealtime();
+
+  const loadMoreFiles = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  // Says why a listing failed to load and offers the way out
+  const reportLoadError = useCallback((error: unknown, what: string, retry: () => void) => {
+    console.error(`Error fetching ${what}:`, error);
+    const reason = fileErrorReason(error);
+    const message = `Failed to load your ${what}. ${describeFileError(reason)}`;
+
+    if (reason.kind === "forbidden") {
+      toast.error(message, { action: { label: "Sign in", onClick: () => navigate("/login") } });
+    } else {
+      toast.error(message, { action: { label: "Retry", onClick: retry } });
+    }
+  }, [navigate]);
+
+  useEffect(() => {
+    if (filesFailed) {
+      reportLoadError(filesError, "files", () => refetchFiles());
+    }
+  }, [filesFailed, filesError, refetchFiles, reportLoadError]);
+
+  const fetchFolders = useCallback(async () => {
     if (!user) return;
-    
-    setLoadingFiles(true);
+
     try {
-      const userFiles = await getUserFiles(user.id);
-      setFiles(userFiles);
+      const [childFolders, path] = await Promise.all([
+        getFolders(user.id, currentFolderId),
+        currentFolderId ? getFolderPath(currentFolderId) : Promise.resolve([]),
+      ]);
+
+      // A bookmarked or open folder that was deleted elsewhere has no path
+      if (currentFolderId && path.length === 0) {
+        toast.error("This folder no longer exists. Showing all files instead.");
+        setSearchParams(params => {
+          const next = new URLSearchParams(params);
+          next.delete("folder");
+          return next;
+        }, { replace: true });
+        return;
+      }
+
+      setFolders(childFolders);
+      setFolderPath(path);
     } catch (error) {
-      console.error("Error fetching files:", error);
-      toast.error("Failed to load your files. Please try again.");
-    } finally {
-      setLoadingFiles(false);
+      reportLoadError(error, "folders", () => fetchFolders());
     }
-  };
+  }, [user, currentFolderId, setSearchParams, reportLoadError]);
 
   useEffect(() => {
     if (user) {
-      fetchFiles();
+      fetchFolders();
     }
-  }, [user]);
+  }, [user, fetchFolders]);
 
-  const handleFileUploaded = (file: FileMetadata) => {
-    setFiles(prevFiles => [file, ...prevFiles]);
+  const navigateToFolder = (folderId: string | null) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (folderId) {
+        next.set("folder", folderId);
+      } else {
+        next.delete("folder");
+      }
+      return next;
+    });
   };
 
-  const handleFileDeleted = (fileId: string) => {
-    setFiles(prevFiles => prevFiles.filter(file => file.id !== fileId));
+  const toggleTrash = () => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (showingTrash) {
+        next.delete("view");
+      } else {
+        next.set("view", "trash");
+      }
+      return next;
+    });
   };
 
-  const handleFileUpdated = (updatedFile: FileMetadata) => {
-    setFiles(prevFiles => 
-      prevFiles.map(file => 
-        file.id === updatedFile.id ? updatedFile : file
-      )
-    );
+  const handleQueryChange = useCallback((query: FileQuery) => {
+    setSearchParams(params => writeFileQuery(params, query), { replace: true });
+  }, [setSearchParams]);
+
+  const handleFoldersChanged = () => {
+    fetchFolders();
+    // Deleting a folder moves its files to the trash, out of any cached listing
+    queryClient.invalidateQueries({ queryKey: fileKeys.all(user?.id) });
+    queryClient.invalidateQueries({ queryKey: trashKey(user?.id) });
   };
 
   if (isLoading) {
@@ -64,18 +150,54 @@ const Dashboard = () => {
   return (
     <Layout>
       <div className="container mx-auto py-6 animate-fade-in">
-        <h1 className="text-3xl font-bold mb-6">Your Files</h1>
-        
-        <FileUploader onFileUploaded={handleFileUploaded} />
-        
-        <div className="mt-8">
-          <FileList 
-            files={files}
-            loading={loadingFiles}
-            onFileDeleted={handleFileDeleted}
-            onFileUpdated={handleFileUpdated}
-          />
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-3xl font-bold">{showingTrash ? "Trash" : "Your Files"}</h1>
+          <Button variant="outline" onClick={toggleTrash}>
+            {showingTrash ? <ArrowLeft className="mr-2 h-4 w-4" /> : <Trash className="mr-2 h-4 w-4" />}
+            {showingTrash ? "Back to files" : "Trash"}
+          </Button>
         </div>
+
+        <div className="mb-6">
+          <StorageUsageMeter />
+        </div>
+
+        {showingTrash ? (
+          <TrashView />
+        ) : (
+          <>
+            <FileUploader
+              folderId={currentFolderId}
+              onFoldersChanged={fetchFolders}
+            />
+
+            <div className="mt-8 space-y-6">
+              <CollectionsPanel />
+              <FileFilters query={fileQuery} onChange={handleQueryChange} />
+              {filtering ? (
+                <p className="text-sm text-muted-foreground">
+                  Showing matching files from all folders.
+                </p>
+              ) : (
+                <FolderBrowser
+                  currentFolderId={currentFolderId}
+                  path={folderPath}
+                  folders={folders}
+                  onNavigate={navigateToFolder}
+                  onFoldersChanged={handleFoldersChanged}
+                />
+              )}
+              <FileList
+                files={files}
+                loading={loadingFiles}
+                filtered={filtering}
+                hasMore={hasNextPage}
+                loadingMore={isFetchingNextPage}
+                onLoadMore={loadMoreFiles}
+              />
+            </div>
+          </>
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,321 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, Link } from "react-router-dom";
+import {
+  CollectionResolution,
+  downloadCollectionAsZip,
+  getCollectionDownloadUrl,
+  resolveCollection,
+  SharedCollection as SharedCollectionDetails,
+} from "@/services/collectionService";
+import { formatFileSize } from "@/services/fileService";
+import { fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Clock, Copy, Download, FileArchive, FileIcon, Layers, Lock } from "lucide-react";
+
+const SharedCollection = () => {
+  const { collectionId } = useParams<{ collectionId: string }>();
+  const [collection, setCollection] = useState<SharedCollectionDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [checkingPassword, setCheckingPassword] = useState(false);
+  const [expiredAt, setExpiredAt] = useState<Date | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [zipping, setZipping] = useState(false);
+
+  const applyResolution = useCallback((resolution: CollectionResolution) => {
+    switch (resolution.status) {
+      case "ok":
+        setCollection(resolution.collection);
+        setPasswordRequired(false);
+        setPasswordError(null);
+        setLockedUntil(null);
+        return;
+      case "password_required":
+        setPasswordRequired(true);
+        return;
+      case "invalid_password":
+        setPasswordRequired(true);
+        setPasswordError(
+          `Incorrect password. ${resolution.attemptsLeft} ${resolution.attemptsLeft === 1 ? "attempt" : "attempts"} left.`
+        );
+        return;
+      case "locked":
+        setPasswordRequired(true);
+        setLockedUntil(resolution.lockedUntil);
+        setPasswordError(null);
+        return;
+      case "expired":
+        setCollection(null);
+        setPasswordRequired(false);
+        setExpiredAt(resolution.expiredAt);
+        return;
+      case "not_found":
+        setCollection(null);
+        setError("This collection doesn't exist or has been deleted");
+        return;
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!collectionId) return;
+    applyResolution(await resolveCollection(collectionId, password || undefined));
+  }, [collectionId, password, applyResolution]);
+
+  useEffect(() => {
+    const fetchCollection = async () => {
+      if (!collectionId) {
+        setError("No collection ID provided");
+        setLoading(false);
+        return;
+      }
+
+      try {
+        applyResolution(await resolveCollection(collectionId));
+      } catch (err) {
+        console.error("Error fetching shared collection:", err);
+        setError("Failed to load the collection. Please try again later.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCollection();
+  }, [collectionId, applyResolution]);
+
+  // Lift the lockout in the UI once it has passed; the server decides either way.
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timeout = setTimeout(() => setLockedUntil(null), Math.max(lockedUntil.getTime() - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [lockedUntil]);
+
+  const handleSubmitPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!collectionId || !password) return;
+
+    setCheckingPassword(true);
+    try {
+      applyResolution(await resolveCollection(collectionId, password));
+    } catch (err) {
+      console.error("Error checking password:", err);
+      toast.error(`Failed to check the password. ${describeFileError(fileErrorReason(err))}`);
+    } finally {
+      setCheckingPassword(false);
+    }
+  };
+
+  const handleDownload = async (fileId: string) => {
+    if (!collectionId) return;
+
+    setDownloadingId(fileId);
+    try {
+      const downloadUrl = await getCollectionDownloadUrl(collectionId, fileId, password || undefined);
+      if (!downloadUrl) {
+        toast.error("This file is no longer available");
+        await refresh();
+        return;
+      }
+      window.location.href = downloadUrl;
+      toast.success("Download started");
+    } catch (err) {
+      console.error("Error starting download:", err);
+      toast.error(`Failed to start the download. ${describeFileError(fileErrorReason(err))}`);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    if (!collectionId) return;
+
+    setZipping(true);
+    try {
+      if (!(await downloadCollectionAsZip(collectionId, password || undefined))) {
+        toast.error("None of the files in this collection are available any more");
+        await refresh();
+      }
+    } catch (err) {
+      console.error("Error downloading collection:", err);
+      toast.error(`Failed to build the ZIP archive. ${describeFileError(fileErrorReason(err))}`);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    toast.success("Link copied to clipboard");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-sky-900 to-cyan-800 p-4">
+        <div className="text-white">Loading collection...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-sky-900 to-cyan-800 p-4">
+      <div className="w-full max-w-xl animate-fade-in">
+        <div className="mb-8 text-center">
+          <Link to="/" className="inline-block">
+            <h1 className="text-4xl font-bold text-white">CloudDrop</h1>
+          </Link>
+          <p className="mt-2 text-sky-200">Secure file sharing</p>
+        </div>
+
+        {expiredAt ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-muted rounded-lg">
+                  <Clock className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <CardTitle>Link Expired</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p>
+                This link expired on {expiredAt.toLocaleDateString()}. Ask the sender for a new link.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/">Back to Home</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : error ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-destructive">Collection Not Available</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p>{error}</p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/">Back to Home</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : passwordRequired && !collection ? (
+          <Card className="backdrop-blur-sm bg-white/95">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  <Lock className="h-8 w-8 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">Password required</CardTitle>
+                  <CardDescription className="mt-1">
+                    The owner protected this collection with a password.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <form onSubmit={handleSubmitPassword}>
+              <CardContent className="space-y-2">
+                <Input
+                  type="password"
+                  autoFocus
+                  placeholder="Enter password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={!!lockedUntil || checkingPassword}
+                />
+                {lockedUntil ? (
+                  <p className="text-sm text-destructive">
+                    Too many incorrect attempts. Try again after {lockedUntil.toLocaleTimeString()}.
+                  </p>
+                ) : passwordError ? (
+                  <p className="text-sm text-destructive">{passwordError}</p>
+                ) : null}
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!password || !!lockedUntil || checkingPassword}
+                >
+                  {checkingPassword ? "Checking..." : "Unlock"}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        ) : collection ? (
+          <Card className="backdrop-blur-sm bg-white/95">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  <Layers className="h-8 w-8 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl break-all">{collection.name}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {collection.files.length} {collection.files.length === 1 ? "file" : "files"}
+                    {collection.expiresAt && ` · expires ${collection.expiresAt.toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+
+            <CardContent>
+              {collection.files.length === 0 ? (
+                <p className="text-sm text-muted-foreground">There are no files in this collection right now.</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {collection.files.map(file => (
+                    <li key={file.id} className="flex items-center gap-3 px-3 py-2">
+                      <FileIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{file.originalName}</p>
+                        <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(file.id)}
+                        disabled={downloadingId === file.id || zipping}
+                        aria-label={`Download ${file.originalName}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+
+            <CardFooter className="flex flex-col space-y-2">
+              <Button
+                onClick={handleDownloadAll}
+                className="w-full"
+                size="lg"
+                disabled={collection.files.length === 0 || zipping}
+              >
+                <FileArchive className="mr-2 h-5 w-5" />
+                {zipping ? "Preparing..." : "Download all"}
+              </Button>
+              <Button variant="outline" className="w-full" onClick={handleCopyLink}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default SharedCollection;
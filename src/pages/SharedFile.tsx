@@ -1,63 +1,232 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef, lazy, Suspense } from "react";
 import { useParams, Link } from "react-router-dom";
-import { FileMetadata, formatFileSize, getFileByShareId } from "@/services/fileService";
+import {
+  SharedFileDetails,
+  formatFileSize,
+  PREVIEW_URL_TTL_SECONDS,
+  resolveShare,
+  ShareResolution,
+} from "@/services/fileService";
+import { FileError, fileErrorReason } from "@/services/fileErrors";
+import { describeFileError } from "@/lib/fileErrorMessages";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Download, Share2, Copy, FileIcon } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Download, Share2, Copy, FileIcon, Lock, Clock, RotateCcw } from "lucide-react";
+
+// The viewers pull in markdown and syntax highlighting, so load them on demand.
+const FilePreview = lazy(() =>
+  import("@/components/FilePreview").then(module => ({ default: module.FilePreview }))
+);
+
+// Recipients have no account, so most failures come down to the connection or
+// to the link having gone away since the page loaded.
+const describeShareError = (reason: FileError): string => {
+  switch (reason.kind) {
+    case "not_found":
+      return "This file doesn't exist or has expired";
+    case "expired":
+      return "This link has expired. Ask the sender for a new one.";
+    case "forbidden":
+      return "You don't have access to this file.";
+    default:
+      return describeFileError(reason);
+  }
+};
+
+// Failures that may clear up on their own
+const isTransient = (reason: FileError) => reason.kind === "network" || reason.kind === "unknown";
 
 const SharedFile = () => {
-  const { fileId } = useParams<{ fileId: string }>();
-  const [file, setFile] = useState<FileMetadata | null>(null);
+  const { slug } = useParams<{ slug: string }>();
+  const [file, setFile] = useState<SharedFileDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set when the page failed to load for a reason a retry might fix
+  const [retryable, setRetryable] = useState(false);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState("");
+  // For effects that only need the password the file was unlocked with, not every keystroke
+  const passwordRef = useRef(password);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [checkingPassword, setCheckingPassword] = useState(false);
+  const [expiredAt, setExpiredAt] = useState<Date | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Bumped to sign a fresh preview URL once the current one has run out
+  const [previewRequest, setPreviewRequest] = useState(0);
+  const previewSignedAt = useRef(0);
+  // An earlier version picked for download; null for the current one
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  // Applies a resolver answer to the page; returns the download URL when access was granted.
+  const applyResolution = useCallback((resolution: ShareResolution): string | null => {
+    switch (resolution.status) {
+      case "ok":
+        setFile(resolution.file);
+        setPasswordRequired(false);
+        setPasswordError(null);
+        setLockedUntil(null);
+        return resolution.downloadUrl;
+      case "password_required":
+        setPasswordRequired(true);
+        return null;
+      case "invalid_password":
+        setPasswordRequired(true);
+        setPasswordError(
+          `Incorrect password. ${resolution.attemptsLeft} ${resolution.attemptsLeft === 1 ? "attempt" : "attempts"} left.`
+        );
+        return null;
+      case "locked":
+        setPasswordRequired(true);
+        setLockedUntil(resolution.lockedUntil);
+        setPasswordError(null);
+        return null;
+      case "expired":
+        setFile(null);
+        setPasswordRequired(false);
+        setExpiredAt(resolution.expiredAt);
+        return null;
+      case "revoked":
+        setFile(null);
+        setPasswordRequired(false);
+        setError("The owner has revoked this link. Ask them for a new one.");
+        return null;
+      case "limit_reached":
+        setFile(null);
+        setPasswordRequired(false);
+        setError("This link has reached its download limit and no longer works.");
+        return null;
+      case "not_found":
+        setFile(null);
+        setError("This file doesn't exist or has expired");
+        return null;
+    }
+  }, []);
+
+  const fetchFile = useCallback(async () => {
+    if (!slug) {
+      setError("No share link provided");
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setRetryable(false);
+    try {
+      applyResolution(await resolveShare(slug));
+    } catch (err) {
+      console.error("Error fetching shared file:", err);
+      const reason = fileErrorReason(err);
+      setError(`Failed to load the file. ${describeShareError(reason)}`);
+      setRetryable(isTransient(reason));
+    } finally {
+      setLoading(false);
+    }
+  }, [slug, applyResolution]);
 
   useEffect(() => {
-    const fetchFile = async () => {
-      if (!fileId) {
-        setError("No file ID provided");
-        setLoading(false);
-        return;
-      }
+    fetchFile();
+  }, [fetchFile]);
 
-      try {
-        const { data: fileData, error: fetchError } = await supabase
-          .from('file_metadata')
-          .select('*')
-          .eq('id', fileId)
-          .single();
-
-        if (fetchError || !fileData) {
-          setError("This file doesn't exist or has expired");
-        } else {
-          setFile({
-            id: fileData.id,
-            userId: fileData.user_id,
-            originalName: fileData.original_name,
-            fileType: fileData.file_type,
-            size: fileData.size,
-            uploadDate: new Date(fileData.upload_date),
-            shareUrl: fileData.share_url,
-            expiresAt: fileData.expires_at ? new Date(fileData.expires_at) : null
-          });
-        }
-      } catch (err) {
-        console.error("Error fetching shared file:", err);
-        setError("Failed to load file. Please try again later.");
-      } finally {
-        setLoading(false);
-      }
+  useEffect(() => {
+    passwordRef.current = password;
+  }, [password]);
+
+  const fileUnlocked = !!file;
+  const previewAvailable = !!file?.previewAvailable;
+
+  // Fetch a preview URL once access is granted. Keyed on the unlock itself so that
+  // later resolutions (e.g. a download) do not sign a new URL. A link revoked in
+  // the meantime takes the preview away.
+  useEffect(() => {
+    if (!slug || !fileUnlocked || !previewAvailable) return;
+
+    let cancelled = false;
+
+    resolveShare(slug, { password: passwordRef.current || undefined, action: "preview" })
+      .then(resolution => {
+        if (cancelled) return;
+        previewSignedAt.current = Date.now();
+        setPreviewUrl(resolution.status === "ok" ? resolution.previewUrl : null);
+      })
+      .catch(err => console.error("Error loading preview:", err));
+
+    return () => {
+      cancelled = true;
     };
+  }, [slug, fileUnlocked, previewAvailable, previewRequest]);
 
-    fetchFile();
-  }, [fileId]);
+  // Errors while the URL is still valid are real ones, not worth a new URL.
+  const handlePreviewError = useCallback(() => {
+    if (Date.now() - previewSignedAt.current >= PREVIEW_URL_TTL_SECONDS * 1000) {
+      setPreviewRequest(request => request + 1);
+    }
+  }, []);
+
+  // Lift the lockout in the UI once it has passed; the server decides either way.
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timeout = setTimeout(() => setLockedUntil(null), Math.max(lockedUntil.getTime() - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [lockedUntil]);
+
+  const handleSubmitPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slug || !password) return;
+
+    setCheckingPassword(true);
+    try {
+      applyResolution(await resolveShare(slug, { password }));
+    } catch (err) {
+      console.error("Error checking password:", err);
+      const reason = fileErrorReason(err);
+      toast.error(`Failed to check the password. ${describeShareError(reason)}`, isTransient(reason)
+        ? { action: { label: "Retry", onClick: () => handleSubmitPassword(e) } }
+        : undefined);
+    } finally {
+      setCheckingPassword(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!slug || !file) return;
 
-  const handleDownload = () => {
-    if (!file?.shareUrl) return;
-    window.location.href = file.shareUrl;
-    toast.success("Download started");
+    try {
+      // Signed URLs are minted per download and expire within a minute.
+      const downloadUrl = applyResolution(
+        await resolveShare(slug, {
+          password: password || undefined,
+          action: "download",
+          version: selectedVersion ?? undefined,
+        })
+      );
+      if (!downloadUrl) return;
+      window.location.href = downloadUrl;
+      toast.success("Download started");
+    } catch (err) {
+      console.error("Error starting download:", err);
+      const reason = fileErrorReason(err);
+      if (selectedVersion !== null && reason.kind === "not_found") {
+        // The owner deleted that version; the link itself still works
+        toast.error("That version is no longer available");
+        setSelectedVersion(null);
+        fetchFile();
+      } else if (isTransient(reason)) {
+        toast.error(`Failed to start the download. ${describeShareError(reason)}`, {
+          action: { label: "Retry", onClick: handleDownload },
+        });
+      } else {
+        // The link has gone away since the page loaded
+        setFile(null);
+        setError(describeShareError(reason));
+      }
+    }
   };
 
   const handleCopyLink = () => {
@@ -77,7 +246,7 @@ const SharedFile = () => {
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-sky-900 to-cyan-800 p-4">
-      <div className="w-full max-w-md animate-fade-in">
+      <div className={`w-full ${previewUrl ? "max-w-2xl" : "max-w-md"} animate-fade-in`}>
         <div className="mb-8 text-center">
           <Link to="/" className="inline-block">
             <h1 className="text-4xl font-bold text-white">CloudDrop</h1>
@@ -85,7 +254,28 @@ const SharedFile = () => {
           <p className="mt-2 text-sky-200">Secure file sharing</p>
         </div>
 
-        {error ? (
+        {expiredAt ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-muted rounded-lg">
+                  <Clock className="h-8 w-8 text-muted-foreground" />
+                </div>
+                <CardTitle>Link Expired</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p>
+                This link expired on {expiredAt.toLocaleDateString()}. Ask the sender for a new link.
+              </p>
+            </CardContent>
+            <CardFooter>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/">Back to Home</Link>
+              </Button>
+            </CardFooter>
+          </Card>
+        ) : error ? (
           <Card>
             <CardHeader>
               <CardTitle className="text-destructive">File Not Available</CardTitle>
@@ -93,12 +283,62 @@ const SharedFile = () => {
             <CardContent>
               <p>{error}</p>
             </CardContent>
-            <CardFooter>
+            <CardFooter className="flex flex-col space-y-2">
+              {retryable && (
+                <Button className="w-full" onClick={fetchFile}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Try again
+                </Button>
+              )}
               <Button asChild variant="outline" className="w-full">
                 <Link to="/">Back to Home</Link>
               </Button>
             </CardFooter>
           </Card>
+        ) : passwordRequired && !file ? (
+          <Card className="backdrop-blur-sm bg-white/95">
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  <Lock className="h-8 w-8 text-primary" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl">Password required</CardTitle>
+                  <CardDescription className="mt-1">
+                    The owner protected this file with a password.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <form onSubmit={handleSubmitPassword}>
+              <CardContent className="space-y-2">
+                <Input
+                  type="password"
+                  autoFocus
+                  placeholder="Enter password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={!!lockedUntil || checkingPassword}
+                />
+                {lockedUntil ? (
+                  <p className="text-sm text-destructive">
+                    Too many incorrect attempts. Try again after {lockedUntil.toLocaleTimeString()}.
+                  </p>
+                ) : passwordError ? (
+                  <p className="text-sm text-destructive">{passwordError}</p>
+                ) : null}
+              </CardContent>
+              <CardFooter>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!password || !!lockedUntil || checkingPassword}
+                >
+                  {checkingPassword ? "Checking..." : "Unlock"}
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
         ) : file ? (
           <Card className="backdrop-blur-sm bg-white/95">
             <CardHeader>
@@ -115,11 +355,22 @@ const SharedFile = () => {
               </div>
             </CardHeader>
 
-            <CardContent>
+            <CardContent className="space-y-4">
+              {previewUrl && (
+                <Suspense fallback={<Skeleton className="h-40 w-full" />}>
+                  <FilePreview
+                    url={previewUrl}
+                    fileType={file.fileType}
+                    fileName={file.originalName}
+                    size={file.size}
+                    onMediaError={handlePreviewError}
+                  />
+                </Suspense>
+              )}
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Type:</span>
-                  <span className="font-medium">{file.fileType.split('/')[1].toUpperCase()}</span>
+                  <span className="font-medium">{file.fileType.split("/")[1]?.toUpperCase() || "Unknown"}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Uploaded:</span>
@@ -127,6 +378,17 @@ const SharedFile = () => {
                     {file.uploadDate.toLocaleDateString()}
                   </span>
                 </div>
+                {file.downloadsLeft !== null && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Downloads left:</span>
+                    <span className="font-medium">{file.downloadsLeft}</span>
+                  </div>
+                )}
+                {file.downloadsLeft === 1 && (
+                  <p className="text-sm text-amber-600">
+                    This is the last download. The link stops working afterwards.
+                  </p>
+                )}
                 {file.expiresAt && (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Expires:</span>
@@ -135,6 +397,33 @@ const SharedFile = () => {
                     </span>
                   </div>
                 )}
+                {file.versions.length > 0 && (
+                  <div className="space-y-1">
+                    <span className="text-sm text-muted-foreground">Version:</span>
+                    <Select
+                      value={String(selectedVersion ?? file.version)}
+                      onValueChange={value => {
+                        const version = Number(value);
+                        setSelectedVersion(version === file.version ? null : version);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={String(file.version)}>
+                          Version {file.version} (latest)
+                        </SelectItem>
+                        {file.versions.map(version => (
+                          <SelectItem key={version.version} value={String(version.version)}>
+                            Version {version.version}: {version.originalName}, {formatFileSize(version.size)},{" "}
+                            {version.uploadDate.toLocaleDateString()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             </CardContent>
 
@@ -145,7 +434,7 @@ const SharedFile = () => {
                 size="lg"
               >
                 <Download className="mr-2 h-5 w-5" />
-                Download File
+                {selectedVersion === null ? "Download File" : `Download Version ${selectedVersion}`}
               </Button>
               <div className="flex gap-2 w-full">
                 <Button
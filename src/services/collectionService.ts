@@ -0,0 +1,251 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { startZipDownload } from "@/services/fileService";
+import { toFileServiceError } from "@/services/fileErrors";
+
+export interface CollectionFile {
+  id: string;
+  originalName: string;
+  fileType: string;
+  size: number;
+}
+
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  passwordProtected: boolean;
+  files: CollectionFile[];
+}
+
+export interface SharedCollectionFile {
+  id: string;
+  originalName: string;
+  fileType: string;
+  size: number;
+  uploadDate: Date;
+}
+
+export interface SharedCollection {
+  id: string;
+  name: string;
+  expiresAt: Date | null;
+  passwordProtected: boolean;
+  files: SharedCollectionFile[];
+}
+
+export type CollectionResolution =
+  | { status: 'ok'; collection: SharedCollection }
+  | { status: 'password_required' }
+  | { status: 'invalid_password'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: Date }
+  | { status: 'expired'; expiredAt: Date }
+  | { status: 'not_found' };
+
+const COLLECTION_COLUMNS =
+  '*, collection_files(position, added_at, file_metadata(id, original_name, file_type, size))';
+
+export const getCollections = async (userId: string): Promise<Collection[]> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(row => ({
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    passwordProtected: row.password_protected,
+    files: [...row.collection_files]
+      .sort((a, b) => a.position - b.position || a.added_at.localeCompare(b.added_at))
+      .flatMap(({ file_metadata: file }) => file
+        ? [{ id: file.id, originalName: file.original_name, fileType: file.file_type, size: file.size }]
+        : [])
+  }));
+};
+
+export const createCollection = async (
+  userId: string,
+  name: string,
+  fileIds: string[] = []
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ user_id: userId, name: name.trim() })
+    .select('id')
+    .single();
+
+  if (error) throw toFileServiceError(error);
+
+  if (fileIds.length > 0) {
+    await addFilesToCollection(data.id, fileIds);
+  }
+
+  return data.id;
+};
+
+// New files go to the end; files already in the collection keep their place.
+export const addFilesToCollection = async (collectionId: string, fileIds: string[]): Promise<void> => {
+  const { data: last, error: positionError } = await supabase
+    .from('collection_files')
+    .select('position')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (positionError) throw toFileServiceError(positionError);
+
+  const start = (last?.position ?? -1) + 1;
+  const { error } = await supabase
+    .from('collection_files')
+    .upsert(
+      fileIds.map((fileId, index) => ({
+        collection_id: collectionId,
+        file_id: fileId,
+        position: start + index
+      })),
+      { onConflict: 'collection_id,file_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const removeFileFromCollection = async (collectionId: string, fileId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('collection_files')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('file_id', fileId);
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const renameCollection = async (collectionId: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('collections')
+    .update({ name: name.trim() })
+    .eq('id', collectionId);
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const updateCollectionExpiration = async (
+  collectionId: string,
+  expiresIn: number | null
+): Promise<void> => {
+  const { error } = await supabase
+    .from('collections')
+    .update({
+      expires_at: expiresIn ? new Date(Date.now() + expiresIn * 86400000).toISOString() : null
+    })
+    .eq('id', collectionId);
+
+  if (error) throw toFileServiceError(error);
+};
+
+// An empty password removes protection.
+export const setCollectionPassword = async (collectionId: string, password: string | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_collection_password', {
+    p_collection_id: collectionId,
+    p_password: password ?? ''
+  });
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const deleteCollection = async (collectionId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('collections')
+    .delete()
+    .eq('id', collectionId);
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const getCollectionLink = (collectionId: string): string =>
+  `${window.location.origin}/s/${collectionId}`;
+
+const invokeResolveCollection = (
+  collectionId: string,
+  body: { password?: string; action: 'view' | 'download' | 'download_all'; fileId?: string }
+) =>
+  supabase.functions.invoke('resolve-collection', {
+    body: { collectionId, ...body, referrer: document.referrer || undefined }
+  });
+
+export const resolveCollection = async (
+  collectionId: string,
+  password?: string
+): Promise<CollectionResolution> => {
+  const { data, error } = await invokeResolveCollection(collectionId, { password, action: 'view' });
+
+  if (error) {
+    if (!(error instanceof FunctionsHttpError)) throw toFileServiceError(error);
+
+    const body = await error.context.json().catch(() => ({}));
+    switch (body.error) {
+      case 'password_required':
+        return { status: 'password_required' };
+      case 'invalid_password':
+        return { status: 'invalid_password', attemptsLeft: body.attemptsLeft };
+      case 'locked':
+        return { status: 'locked', lockedUntil: new Date(body.lockedUntil) };
+      case 'expired':
+        return { status: 'expired', expiredAt: new Date(body.expiredAt) };
+      case 'not_found':
+        return { status: 'not_found' };
+      default:
+        throw toFileServiceError(error);
+    }
+  }
+
+  return {
+    status: 'ok',
+    collection: {
+      ...data.collection,
+      expiresAt: data.collection.expiresAt ? new Date(data.collection.expiresAt) : null,
+      files: data.collection.files.map((file: Omit<SharedCollectionFile, 'uploadDate'> & { uploadDate: string }) => ({
+        ...file,
+        uploadDate: new Date(file.uploadDate)
+      }))
+    }
+  };
+};
+
+// Resolves to null when the file is no longer available, e.g. because its
+// download limit was reached since the collection was opened.
+export const getCollectionDownloadUrl = async (
+  collectionId: string,
+  fileId: string,
+  password?: string
+): Promise<string | null> => {
+  const { data, error } = await invokeResolveCollection(collectionId, { password, action: 'download', fileId });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && [404, 410].includes(error.context.status)) return null;
+    throw toFileServiceError(error);
+  }
+
+  return data.downloadUrl;
+};
+
+// Resolves to false when none of the files can be downloaded any more.
+export const downloadCollectionAsZip = async (collectionId: string, password?: string): Promise<boolean> => {
+  const { data, error } = await invokeResolveCollection(collectionId, { password, action: 'download_all' });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 410) return false;
+    throw toFileServiceError(error);
+  }
+
+  startZipDownload(data.ticket);
+  return true;
+};
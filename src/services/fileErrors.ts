@@ -0,0 +1,121 @@
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { DetailedError } from 'tus-js-client';
+
+// Why a fileService call failed, in the terms the UI reacts to. Anything that
+// fits none of these is 'unknown'.
+export type FileError =
+  | { kind: 'quota_exceeded'; available: number | null }
+  | { kind: 'too_large'; maxSize: number | null }
+  | { kind: 'not_found' }
+  | { kind: 'expired'; expiredAt: Date | null }
+  | { kind: 'forbidden' }
+  | { kind: 'network' }
+  | { kind: 'conflict' }
+  | { kind: 'invalid' }
+  | { kind: 'unknown' };
+
+export type FileErrorKind = FileError['kind'];
+
+// Thrown by fileService in place of raw Supabase, Storage and tus errors. The
+// message is meant for logs; callers pick the wording from `reason`.
+export class FileServiceError extends Error {
+  readonly reason: FileError;
+  readonly cause: unknown;
+
+  constructor(reason: FileError, message: string = reason.kind, cause?: unknown) {
+    super(message);
+    this.name = 'FileServiceError';
+    this.reason = reason;
+    this.cause = cause;
+  }
+}
+
+// Maps an HTTP status from Storage, an edge function or tus.
+export const fileErrorForStatus = (status: number): FileError => {
+  switch (status) {
+    case 401:
+    case 403:
+      return { kind: 'forbidden' };
+    case 404:
+      return { kind: 'not_found' };
+    case 409:
+      return { kind: 'conflict' };
+    case 410:
+      return { kind: 'expired', expiredAt: null };
+    case 413:
+      return { kind: 'too_large', maxSize: null };
+    default:
+      return { kind: 'unknown' };
+  }
+};
+
+// PostgREST and Postgres error codes
+const fromCode = (code: string, hint: string | undefined): FileError => {
+  if (hint === 'storage_quota') return { kind: 'quota_exceeded', available: null };
+  if (hint === 'plan_file_size') return { kind: 'too_large', maxSize: null };
+
+  switch (code) {
+    case 'PGRST116': // .single() matched no row, e.g. someone else's file
+    case 'P0002': // no_data_found, raised by the owner RPCs
+    case '23503': // foreign key, e.g. the target folder was deleted
+      return { kind: 'not_found' };
+    case '23505':
+      return { kind: 'conflict' };
+    case '23514':
+    case '22P02':
+      return { kind: 'invalid' };
+    case '42501':
+      return { kind: 'forbidden' };
+    default:
+      return { kind: 'unknown' };
+  }
+};
+
+const isFetchFailure = (error: unknown) =>
+  error instanceof TypeError || (error instanceof Error && /failed to fetch|network/i.test(error.message));
+
+const classify = (error: unknown): FileError => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return { kind: 'network' };
+
+  if (error instanceof FunctionsFetchError) return { kind: 'network' };
+  if (error instanceof FunctionsHttpError) return fileErrorForStatus(error.context.status);
+
+  if (error instanceof DetailedError) {
+    return error.originalResponse ? fileErrorForStatus(error.originalResponse.getStatus()) : { kind: 'network' };
+  }
+
+  // Storage errors carry the HTTP status; the object size limit comes back as a 400.
+  if (error instanceof Error && '__isStorageError' in error) {
+    const { status, originalError } = error as Error & { status?: number; originalError?: unknown };
+    if (/maximum allowed size/i.test(error.message)) return { kind: 'too_large', maxSize: null };
+    if (typeof status === 'number') return fileErrorForStatus(status);
+    return isFetchFailure(originalError) ? { kind: 'network' } : { kind: 'unknown' };
+  }
+
+  // PostgREST errors are plain objects; a failed fetch has an empty code.
+  if (typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string') {
+    const { code, hint, message } = error as { code: string; hint?: string; message?: string };
+    if (!code && /failed to fetch/i.test(message ?? '')) return { kind: 'network' };
+    return fromCode(code, hint);
+  }
+
+  return isFetchFailure(error) ? { kind: 'network' } : { kind: 'unknown' };
+};
+
+// Wraps anything thrown by the Supabase clients. FileServiceErrors pass
+// through unchanged.
+export const toFileServiceError = (error: unknown): FileServiceError => {
+  if (error instanceof FileServiceError) return error;
+
+  const message = error instanceof Error || (typeof error === 'object' && error !== null && 'message' in error)
+    ? String((error as { message: unknown }).message)
+    : String(error);
+
+  return new FileServiceError(classify(error), message, error);
+};
+
+export const isFileServiceError = (error: unknown): error is FileServiceError =>
+  error instanceof FileServiceError;
+
+// The reason behind any error, for callers that got it from a query or mutation.
+export const fileErrorReason = (error: unknown): FileError => toFileServiceError(error).reason;
@@ -1,5 +1,18 @@
 
-import { supabase } from "@/integrations/supabase/client";
+import { supabase, SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { getCurrentPlan, getStorageUsage } from "@/services/planService";
+import { fileErrorForStatus, FileServiceError, toFileServiceError } from "@/services/fileErrors";
+import { needsClientThumbnail, renderClientThumbnail } from "@/lib/thumbnails";
+import {
+  DEFAULT_FILE_QUERY,
+  EXPIRING_SOON_DAYS,
+  FILE_TYPE_FILTERS,
+  FileQuery,
+  isFilteringFiles
+} from "@/lib/fileQuery";
+import * as tus from "tus-js-client";
 import { toast } from "sonner";
 
 export interface FileMetadata {
@@ -9,42 +22,432 @@ export interface FileMetadata {
   fileType: string;
   size: number;
   uploadDate: Date;
-  shareUrl: string;
+  storagePath: string;
   expiresAt: Date | null;
+  folderId: string | null;
+  passwordProtected: boolean;
+  maxDownloads: number | null;
+  downloadCount: number;
+  thumbnailPath: string | null;
+  // Slug of the live share link; null once the link has been revoked.
+  shareSlug: string | null;
+  // Set while the file is in the trash
+  deletedAt: Date | null;
+  // Goes up with every new upload; restoring an earlier version brings its number back.
+  version: number;
 }
 
-export const uploadFile = async (
+// An earlier version of a file, kept when a new one was uploaded.
+export interface FileVersion {
+  id: string;
+  fileId: string;
+  version: number;
+  originalName: string;
+  fileType: string;
+  size: number;
+  uploadDate: Date;
+  storagePath: string;
+  thumbnailPath: string | null;
+}
+
+// Position after the last row of a page: its sort column value and id.
+// Values are kept exactly as the database returned them; a Date would drop
+// the microseconds of upload_date and skip or repeat rows.
+export interface FileCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface FilePage {
+  files: FileMetadata[];
+  nextCursor: FileCursor | null;
+}
+
+export interface Folder {
+  id: string;
+  userId: string;
+  parentId: string | null;
+  name: string;
+  createdAt: Date;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  // Aborting rejects with an AbortError and removes anything already stored.
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  folderId?: string | null;
+  // Protects the share page; hashed server-side, never stored in the clear.
+  password?: string | null;
+  maxDownloads?: number | null;
+}
+
+export interface SharedFileDetails {
+  originalName: string;
+  fileType: string;
+  size: number;
+  uploadDate: Date;
+  expiresAt: Date | null;
+  passwordProtected: boolean;
+  downloadsLeft: number | null;
+  previewAvailable: boolean;
+  version: number;
+  // Earlier versions, newest first
+  versions: SharedFileVersion[];
+}
+
+export interface SharedFileVersion {
+  version: number;
+  originalName: string;
+  fileType: string;
+  size: number;
+  uploadDate: Date;
+}
+
+export interface DailyShareActivity {
+  date: string;
+  views: number;
+  downloads: number;
+}
+
+export interface ShareStats {
+  daily: DailyShareActivity[];
+  totalViews: number;
+  totalDownloads: number;
+  topReferrers: { label: string; count: number }[];
+  topUserAgents: { label: string; count: number }[];
+}
+
+export type ShareAction = 'view' | 'download' | 'preview';
+
+export type ShareResolution =
+  | { status: 'ok'; file: SharedFileDetails; downloadUrl: string | null; previewUrl: string | null }
+  | { status: 'password_required' }
+  | { status: 'invalid_password'; attemptsLeft: number }
+  | { status: 'locked'; lockedUntil: Date }
+  | { status: 'expired'; expiredAt: Date }
+  | { status: 'revoked'; revokedAt: Date }
+  | { status: 'limit_reached' }
+  | { status: 'not_found' };
+
+export interface ShareLinkRecord {
+  slug: string;
+  isCustom: boolean;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface InterruptedUpload {
+  urlStorageKey: string;
+  uploadUrl: string | null;
+  fileName: string;
+  size: number | null;
+  startedAt: Date;
+}
+
+const toFileMetadata = (row: Tables<'file_metadata'>): FileMetadata => ({
+  id: row.id,
+  userId: row.user_id,
+  originalName: row.original_name,
+  fileType: row.file_type,
+  size: row.size,
+  uploadDate: new Date(row.upload_date),
+  storagePath: row.storage_path,
+  expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+  folderId: row.folder_id,
+  passwordProtected: row.password_protected,
+  maxDownloads: row.max_downloads,
+  downloadCount: row.download_count,
+  thumbnailPath: row.thumbnail_path,
+  shareSlug: row.share_slug,
+  deletedAt: row.deleted_at ? new Date(row.deleted_at) : null,
+  version: row.version
+});
+
+const toFileVersion = (row: Tables<'file_versions'>): FileVersion => ({
+  id: row.id,
+  fileId: row.file_id,
+  version: row.version,
+  originalName: row.original_name,
+  fileType: row.file_type,
+  size: row.size,
+  uploadDate: new Date(row.created_at),
+  storagePath: row.storage_path,
+  thumbnailPath: row.thumbnail_path
+});
+
+const toFolder = (row: Tables<'folders'>): Folder => ({
+  id: row.id,
+  userId: row.user_id,
+  parentId: row.parent_id,
+  name: row.name,
+  createdAt: new Date(row.created_at)
+});
+
+// Files above this size go through tus so a dropped connection only costs
+// the chunk in flight. Supabase Storage requires exactly 6MB tus chunks.
+const RESUMABLE_THRESHOLD = 6 * 1024 * 1024;
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
+// supabase-js uploads through fetch, which cannot report request progress,
+// so the object body goes to a signed upload URL over XHR instead.
+const putWithProgress = (
+  url: string,
+  file: File,
+  { signal, onProgress }: UploadOptions
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const settle = () => signal?.removeEventListener('abort', abort);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.({ loaded: event.loaded, total: event.total });
+      }
+    };
+    xhr.onload = () => {
+      settle();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.({ loaded: file.size, total: file.size });
+        resolve();
+        return;
+      }
+      let message = `Upload failed with status ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Non-JSON error body; keep the status message.
+      }
+      reject(new FileServiceError(
+        /maximum allowed size/i.test(message) ? { kind: 'too_large', maxSize: null } : fileErrorForStatus(xhr.status),
+        message
+      ));
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new FileServiceError({ kind: 'network' }, "Network error during upload"));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('apikey', SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.send(body);
+  });
+
+const resumableFingerprint = (userId: string, file: File) =>
+  ['clouddrop', userId, file.name, file.type, file.size, file.lastModified].join('-');
+
+const setSessionHeader = async (req: tus.HttpRequest) => {
+  // Long uploads can outlive an access token, so read the session per request.
+  const { data } = await supabase.auth.getSession();
+  req.setHeader('authorization', `Bearer ${data.session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`);
+};
+
+// Uploads through tus and returns the storage path actually written. The tus
+// URL store in localStorage survives a reload, so choosing the same file again
+// resumes the earlier upload (and its original storage path).
+const uploadResumable = async (
+  filePath: string,
   file: File,
   userId: string,
-  expiresIn: number | null = null
-): Promise<FileMetadata> => {
-  // Validate file size (max 50MB)
-  const maxSize = 50 * 1024 * 1024;
-  if (file.size > maxSize) {
-    throw new Error("File size exceeds the maximum limit of 50MB");
+  { signal, onProgress }: UploadOptions
+): Promise<string> => {
+  const upload = new tus.Upload(file, {
+    endpoint: RESUMABLE_ENDPOINT,
+    chunkSize: RESUMABLE_CHUNK_SIZE,
+    retryDelays: [0, 3000, 5000, 10000, 20000],
+    removeFingerprintOnSuccess: true,
+    fingerprint: async () => resumableFingerprint(userId, file),
+    headers: {
+      apikey: SUPABASE_PUBLISHABLE_KEY,
+      'x-upsert': 'false'
+    },
+    metadata: {
+      bucketName: 'file_uploads',
+      objectName: filePath,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600',
+      filename: file.name
+    },
+    onBeforeRequest: setSessionHeader
+  });
+
+  const [previous] = (await upload.findPreviousUploads())
+    .sort((a, b) => b.creationTime.localeCompare(a.creationTime));
+  if (previous) {
+    upload.resumeFromPreviousUpload(previous);
   }
 
+  await new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      // Terminate so a cancelled upload is not offered for resuming later.
+      upload.abort(true).catch(() => undefined);
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    upload.options.onProgress = (loaded, total) => onProgress?.({ loaded, total });
+    upload.options.onSuccess = () => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    };
+    upload.options.onError = (error) => {
+      signal?.removeEventListener('abort', abort);
+      reject(error);
+    };
+    upload.start();
+  });
+
+  return previous?.metadata.objectName ?? filePath;
+};
+
+export const getInterruptedUploads = async (userId: string): Promise<InterruptedUpload[]> => {
+  if (!tus.canStoreURLs) return [];
+
+  const uploads = await tus.defaultOptions.urlStorage.findAllUploads();
+
+  return uploads
+    .filter(upload =>
+      upload.metadata.bucketName === 'file_uploads' &&
+      upload.metadata.objectName?.startsWith(`${userId}/`)
+    )
+    .map(upload => ({
+      urlStorageKey: upload.urlStorageKey,
+      uploadUrl: upload.uploadUrl,
+      fileName: upload.metadata.filename,
+      size: upload.size,
+      startedAt: new Date(upload.creationTime)
+    }));
+};
+
+export const discardInterruptedUpload = async (upload: InterruptedUpload): Promise<void> => {
+  if (upload.uploadUrl) {
+    try {
+      await tus.Upload.terminate(upload.uploadUrl, {
+        headers: { apikey: SUPABASE_PUBLISHABLE_KEY },
+        onBeforeRequest: setSessionHeader
+      });
+    } catch (error) {
+      // The server may already have expired it; forgetting it locally is enough.
+      console.error('Terminate upload error:', error);
+    }
+  }
+  await tus.defaultOptions.urlStorage.removeUpload(upload.urlStorageKey);
+};
+
+// Best effort: a file without a thumbnail just shows its type icon.
+const uploadClientThumbnail = async (file: File, filePath: string) => {
+  try {
+    const thumbnail = await renderClientThumbnail(file);
+    if (!thumbnail) return;
+
+    const { error } = await supabase.storage
+      .from('thumbnails')
+      .upload(`${filePath}.jpg`, thumbnail, { contentType: 'image/jpeg' });
+
+    if (error) throw toFileServiceError(error);
+  } catch (error) {
+    console.error('Thumbnail error:', error);
+  }
+};
+
+// Checks the file against the plan and the remaining storage, then stores it
+// under a new path in the user's folder and returns that path. Aborting
+// rejects with an AbortError and removes the object again.
+const storeUpload = async (file: File, userId: string, options: UploadOptions): Promise<string> => {
+  const { signal } = options;
+
   // Generate a unique file path
   const fileExt = file.name.split('.').pop();
-  const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 7)}.${fileExt}`;
+  let filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 7)}.${fileExt}`;
 
-  try {
-    // Upload file to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from('file_uploads')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
+  // Validate file size against the user's plan and remaining storage
+  const [plan, usage] = await Promise.all([getCurrentPlan(), getStorageUsage()]);
+  if (file.size > plan.maxFileSize) {
+    throw new FileServiceError(
+      { kind: 'too_large', maxSize: plan.maxFileSize },
+      `File size exceeds the maximum limit of ${formatFileSize(plan.maxFileSize)}`
+    );
+  }
+  if (usage.used + file.size > usage.quota) {
+    throw new FileServiceError(
+      { kind: 'quota_exceeded', available: Math.max(usage.quota - usage.used, 0) },
+      'Not enough storage left'
+    );
+  }
 
-    if (uploadError) throw uploadError;
+  signal?.throwIfAborted();
 
-    // Generate public URL
-    const { data: urlData } = await supabase.storage
+  if (file.size > RESUMABLE_THRESHOLD) {
+    filePath = await uploadResumable(filePath, file, userId, options);
+  } else {
+    // Upload file to Supabase Storage through a signed upload URL
+    const { data: signedUpload, error: signError } = await supabase.storage
       .from('file_uploads')
-      .createSignedUrl(filePath, expiresIn ? expiresIn * 24 * 60 * 60 : 365 * 24 * 60 * 60);
+      .createSignedUploadUrl(filePath);
+
+    if (signError) throw signError;
+
+    await putWithProgress(signedUpload.signedUrl, file, options);
+  }
+
+  if (signal?.aborted) {
+    await supabase.storage.from('file_uploads').remove([filePath]);
+    signal.throwIfAborted();
+  }
+
+  return filePath;
+};
 
-    if (!urlData?.signedUrl) throw new Error("Failed to generate share URL");
+// For when the row is rejected after storeUpload, e.g. by the quota trigger;
+// don't leave the object behind.
+const removeStoredUpload = async (filePath: string) => {
+  await supabase.storage.from('file_uploads').remove([filePath]);
+};
+
+// Made once the row exists, so a crash while rendering can't orphan the
+// upload; objects_link_thumbnail attaches it to the row.
+const addClientThumbnail = async (file: File, filePath: string) => {
+  if (needsClientThumbnail(file.type)) {
+    await uploadClientThumbnail(file, filePath);
+  }
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const toUploadError = (error: unknown): FileServiceError => {
+  console.error('Upload error:', error);
+  const serviceError = toFileServiceError(error);
+  // The storage insert policy turns uploads away once the quota is used up
+  if (serviceError.reason.kind === 'forbidden' && /row-level security/i.test(serviceError.message)) {
+    return new FileServiceError({ kind: 'quota_exceeded', available: null }, serviceError.message, error);
+  }
+  return serviceError;
+};
+
+export const uploadFile = async (
+  file: File,
+  userId: string,
+  expiresIn: number | null = null,
+  options: UploadOptions = {}
+): Promise<FileMetadata> => {
+  try {
+    const filePath = await storeUpload(file, userId, options);
 
     // Insert metadata into the database - fixing the Date type issue
     const expirationDate = expiresIn ? new Date(Date.now() + expiresIn * 86400000).toISOString() : null;
@@ -57,166 +460,786 @@ export const uploadFile = async (
         original_name: file.name,
         file_type: file.type,
         size: file.size,
-        share_url: urlData.signedUrl,
-        expires_at: expirationDate
+        expires_at: expirationDate,
+        folder_id: options.folderId ?? null,
+        max_downloads: options.maxDownloads ?? null
       })
       .select()
       .single();
 
-    if (metadataError) throw metadataError;
-
-    return {
-      id: metadataData.id,
-      userId: metadataData.user_id,
-      originalName: metadataData.original_name,
-      fileType: metadataData.file_type,
-      size: metadataData.size,
-      uploadDate: new Date(metadataData.upload_date),
-      shareUrl: metadataData.share_url,
-      expiresAt: metadataData.expires_at ? new Date(metadataData.expires_at) : null
-    };
+    if (metadataError) {
+      await removeStoredUpload(filePath);
+      throw metadataError;
+    }
+
+    if (options.password) {
+      const { error: passwordError } = await supabase.rpc('set_share_password', {
+        p_file_id: metadataData.id,
+        p_password: options.password
+      });
+
+      if (passwordError) {
+        // Never leave the file shared without the password it was meant to
+        // have; a retry uploads it again from scratch.
+        await deleteFile(metadataData.id).catch(cleanupError => console.error('Cleanup error:', cleanupError));
+        throw passwordError;
+      }
+    }
+
+    await addClientThumbnail(file, filePath);
+
+    return toFileMetadata({ ...metadataData, password_protected: !!options.password });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw toUploadError(error);
+  }
+};
+
+// Replaces the content of an existing file and keeps the old content as an
+// earlier version. The row, and with it the share link, stays the same.
+export const uploadFileVersion = async (
+  fileId: string,
+  file: File,
+  userId: string,
+  options: Pick<UploadOptions, 'signal' | 'onProgress'> = {}
+): Promise<FileMetadata> => {
+  try {
+    const filePath = await storeUpload(file, userId, options);
+
+    const { data, error } = await supabase.rpc('add_file_version', {
+      p_file_id: fileId,
+      p_storage_path: filePath,
+      p_original_name: file.name,
+      p_file_type: file.type
+    });
+
+    if (error) {
+      await removeStoredUpload(filePath);
+      throw error;
+    }
+
+    await addClientThumbnail(file, filePath);
+
+    return toFileMetadata(data);
   } catch (error) {
-    console.error('Upload error:', error);
-    throw error;
+    if (isAbortError(error)) throw error;
+    throw toUploadError(error);
   }
 };
 
-export const getUserFiles = async (userId: string): Promise<FileMetadata[]> => {
+// Earlier versions of a file, newest first. The current one is the file itself.
+export const getFileVersions = async (fileId: string): Promise<FileVersion[]> => {
   const { data, error } = await supabase
+    .from('file_versions')
+    .select('*')
+    .eq('file_id', fileId)
+    .order('version', { ascending: false });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(toFileVersion);
+};
+
+// Makes an earlier version current again; the content it replaces becomes a
+// version in its place.
+export const restoreFileVersion = async (fileId: string, version: number): Promise<FileMetadata> => {
+  const { data, error } = await supabase.rpc('restore_file_version', {
+    p_file_id: fileId,
+    p_version: version
+  });
+
+  if (error) throw toFileServiceError(error);
+
+  return toFileMetadata(data);
+};
+
+// Deletes an earlier version for good to free up its storage.
+export const deleteFileVersion = async (fileId: string, version: number): Promise<void> => {
+  const { error } = await supabase.functions.invoke('delete-file', {
+    body: { fileId, version }
+  });
+
+  if (error) throw toFileServiceError(error);
+};
+
+const SORT_COLUMNS = {
+  date: 'upload_date',
+  name: 'original_name',
+  size: 'size'
+} as const;
+
+export const FILE_PAGE_SIZE = 50;
+
+// Quotes a value for a PostgREST or() filter, where commas and parentheses are syntax
+const quoteFilterValue = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, char => `\\${char}`)}"`;
+
+// Escapes LIKE wildcards so a search for "50%" matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+// Lists one folder, or every folder once a search or filter is active, one page
+// at a time. Pages are keyed on (sort column, id) rather than offsets, so rows
+// added or removed meanwhile do not shift later pages.
+export const getUserFiles = async (
+  userId: string,
+  folderId: string | null = null,
+  fileQuery: FileQuery = DEFAULT_FILE_QUERY,
+  cursor: FileCursor | null = null
+): Promise<FilePage> => {
+  let query = supabase
     .from('file_metadata')
     .select('*')
     .eq('user_id', userId)
-    .order('upload_date', { ascending: false });
-
-  if (error) throw error;
-
-  return data.map(file => ({
-    id: file.id,
-    userId: file.user_id,
-    originalName: file.original_name,
-    fileType: file.file_type,
-    size: file.size,
-    uploadDate: new Date(file.upload_date),
-    shareUrl: file.share_url,
-    expiresAt: file.expires_at ? new Date(file.expires_at) : null
-  }));
-};
+    .is('deleted_at', null);
 
-export const deleteFile = async (fileId: string, userId: string): Promise<boolean> => {
-  try {
-    // Get the file metadata first
-    const { data: fileData, error: fetchError } = await supabase
-      .from('file_metadata')
-      .select('storage_path')
-      .eq('id', fileId)
-      .eq('user_id', userId)
-      .single();
+  if (!isFilteringFiles(fileQuery)) {
+    query = folderId ? query.eq('folder_id', folderId) : query.is('folder_id', null);
+  }
 
-    if (fetchError) throw fetchError;
+  const search = fileQuery.search.trim();
+  if (search) {
+    // Served by the trigram index on original_name
+    query = query.ilike('original_name', `%${escapeLike(search)}%`);
+  }
 
-    // Delete the file from storage
-    const { error: storageError } = await supabase.storage
-      .from('file_uploads')
-      .remove([fileData.storage_path]);
+  const typeFilter = FILE_TYPE_FILTERS.find(filter => filter.value === fileQuery.type);
+  if (typeFilter?.prefix) {
+    query = query.like('file_type', `${typeFilter.prefix}%`);
+  } else if (typeFilter?.types) {
+    query = query.in('file_type', typeFilter.types);
+  }
 
-    if (storageError) throw storageError;
+  if (fileQuery.minSize !== null) query = query.gte('size', fileQuery.minSize);
+  if (fileQuery.maxSize !== null) query = query.lte('size', fileQuery.maxSize);
 
-    // Delete the metadata
-    const { error: deleteError } = await supabase
-      .from('file_metadata')
-      .delete()
-      .eq('id', fileId)
-      .eq('user_id', userId);
+  if (fileQuery.uploadedFrom) {
+    query = query.gte('upload_date', startOfDay(fileQuery.uploadedFrom).toISOString());
+  }
+  if (fileQuery.uploadedTo) {
+    const end = startOfDay(fileQuery.uploadedTo);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('upload_date', end.toISOString());
+  }
 
-    if (deleteError) throw deleteError;
+  const now = new Date();
+  switch (fileQuery.expiry) {
+    case 'active':
+      query = query.or(`expires_at.is.null,expires_at.gt.${now.toISOString()}`);
+      break;
+    case 'expiring':
+      query = query
+        .gt('expires_at', now.toISOString())
+        .lte('expires_at', new Date(now.getTime() + EXPIRING_SOON_DAYS * 86400000).toISOString());
+      break;
+    case 'expired':
+      query = query.lte('expires_at', now.toISOString());
+      break;
+    case 'never':
+      query = query.is('expires_at', null);
+      break;
+  }
 
-    return true;
-  } catch (error) {
-    console.error('Delete error:', error);
-    return false;
+  const sortColumn = SORT_COLUMNS[fileQuery.sort];
+  const ascending = fileQuery.order === 'asc';
+
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    const value = quoteFilterValue(cursor.value);
+    query = query.or(
+      `${sortColumn}.${op}.${value},and(${sortColumn}.eq.${value},id.${op}.${cursor.id})`
+    );
   }
+
+  // One extra row tells whether another page follows
+  const { data, error } = await query
+    .order(sortColumn, { ascending })
+    .order('id', { ascending })
+    .limit(FILE_PAGE_SIZE + 1);
+
+  if (error) throw toFileServiceError(error);
+
+  const rows = data.slice(0, FILE_PAGE_SIZE);
+  const last = rows[rows.length - 1];
+
+  return {
+    files: rows.map(toFileMetadata),
+    nextCursor: data.length > FILE_PAGE_SIZE ? { value: last[sortColumn], id: last.id } : null
+  };
+};
+
+export interface FileChangeHandlers {
+  onInsert: (file: FileMetadata) => void;
+  onUpdate: (file: FileMetadata) => void;
+  onDelete: (fileId: string) => void;
+  // Called when the channel reconnects; events sent while it was down are lost
+  onResubscribe?: () => void;
+}
+
+// Streams the user's file_metadata changes over Supabase Realtime. Returns a
+// function that closes the channel.
+export const subscribeToFileChanges = (userId: string, handlers: FileChangeHandlers): (() => void) => {
+  const filter = `user_id=eq.${userId}`;
+  let subscribed = false;
+
+  const channel = supabase
+    .channel(`file_metadata:${userId}`)
+    .on<Tables<'file_metadata'>>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'file_metadata', filter },
+      payload => handlers.onInsert(toFileMetadata(payload.new))
+    )
+    .on<Tables<'file_metadata'>>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'file_metadata', filter },
+      payload => handlers.onUpdate(toFileMetadata(payload.new))
+    )
+    // Delete events cannot be filtered and only carry the primary key; ids of
+    // other users' files simply match nothing in the cache.
+    .on<Tables<'file_metadata'>>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'file_metadata' },
+      payload => {
+        if (payload.old.id) handlers.onDelete(payload.old.id);
+      }
+    )
+    .subscribe(status => {
+      if (status !== 'SUBSCRIBED') return;
+      if (subscribed) handlers.onResubscribe?.();
+      subscribed = true;
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Matches TRASH_RETENTION_DAYS of the cleanup-expired function.
+export const TRASH_RETENTION_DAYS = 30;
+
+export const getTrashedFiles = async (userId: string): Promise<FileMetadata[]> => {
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .select('*')
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(toFileMetadata);
+};
+
+const setDeletedAt = async (fileId: string, userId: string, deletedAt: string | null): Promise<FileMetadata> => {
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .update({ deleted_at: deletedAt })
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw toFileServiceError(error);
+
+  return toFileMetadata(data);
+};
+
+// Its share link stops working until the file is restored.
+export const trashFile = (fileId: string, userId: string): Promise<FileMetadata> =>
+  setDeletedAt(fileId, userId, new Date().toISOString());
+
+export const restoreFile = (fileId: string, userId: string): Promise<FileMetadata> =>
+  setDeletedAt(fileId, userId, null);
+
+// Deletes a file for good through the delete-file function. The row and its
+// objects go together or not at all; see the storage_deletions migration.
+export const deleteFile = async (fileId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('delete-file', {
+    body: { fileId }
+  });
+
+  if (error) throw toFileServiceError(error);
 };
 
 export const updateFileExpiration = async (
   fileId: string,
   userId: string,
   expiresIn: number | null
-): Promise<FileMetadata | null> => {
-  try {
-    const { data: fileData, error: fetchError } = await supabase
-      .from('file_metadata')
-      .select('*')
-      .eq('id', fileId)
-      .eq('user_id', userId)
-      .single();
+): Promise<FileMetadata> => {
+  // Fix the Date type issue by converting to ISO string
+  const expirationDate = expiresIn ? new Date(Date.now() + expiresIn * 86400000).toISOString() : null;
 
-    if (fetchError) throw fetchError;
+  const { data: updateData, error: updateError } = await supabase
+    .from('file_metadata')
+    .update({
+      expires_at: expirationDate
+    })
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .select()
+    .single();
 
-    // Generate new signed URL
-    const { data: urlData } = await supabase.storage
-      .from('file_uploads')
-      .createSignedUrl(fileData.storage_path, expiresIn ? expiresIn * 24 * 60 * 60 : 365 * 24 * 60 * 60);
+  if (updateError) throw toFileServiceError(updateError);
 
-    if (!urlData?.signedUrl) throw new Error("Failed to generate new share URL");
+  return toFileMetadata(updateData);
+};
 
-    // Fix the Date type issue by converting to ISO string
-    const expirationDate = expiresIn ? new Date(Date.now() + expiresIn * 86400000).toISOString() : null;
+export const updateDownloadLimit = async (
+  fileId: string,
+  userId: string,
+  maxDownloads: number | null
+): Promise<FileMetadata> => {
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .update({ max_downloads: maxDownloads })
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .select()
+    .single();
 
-    const { data: updateData, error: updateError } = await supabase
-      .from('file_metadata')
-      .update({
-        share_url: urlData.signedUrl,
-        expires_at: expirationDate
-      })
-      .eq('id', fileId)
-      .eq('user_id', userId)
-      .select()
-      .single();
+  if (error) throw toFileServiceError(error);
 
-    if (updateError) throw updateError;
-
-    return {
-      id: updateData.id,
-      userId: updateData.user_id,
-      originalName: updateData.original_name,
-      fileType: updateData.file_type,
-      size: updateData.size,
-      uploadDate: new Date(updateData.upload_date),
-      shareUrl: updateData.share_url,
-      expiresAt: updateData.expires_at ? new Date(updateData.expires_at) : null
-    };
-  } catch (error) {
-    console.error('Update error:', error);
-    return null;
+  return toFileMetadata(data);
+};
+
+export const moveFile = async (
+  fileId: string,
+  userId: string,
+  folderId: string | null
+): Promise<FileMetadata> => {
+  // Only the metadata row changes; the storage object stays where it is.
+  const { data, error } = await supabase
+    .from('file_metadata')
+    .update({ folder_id: folderId })
+    .eq('id', fileId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw toFileServiceError(error);
+
+  return toFileMetadata(data);
+};
+
+export const getFolders = async (
+  userId: string,
+  parentId: string | null = null
+): Promise<Folder[]> => {
+  let query = supabase
+    .from('folders')
+    .select('*')
+    .eq('user_id', userId);
+
+  query = parentId ? query.eq('parent_id', parentId) : query.is('parent_id', null);
+
+  const { data, error } = await query.order('name');
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(toFolder);
+};
+
+export const getAllFolders = async (userId: string): Promise<Folder[]> => {
+  const { data, error } = await supabase
+    .from('folders')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name');
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(toFolder);
+};
+
+export const getFolderPath = async (folderId: string): Promise<Folder[]> => {
+  const { data, error } = await supabase.rpc('folder_path', { p_folder_id: folderId });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(toFolder);
+};
+
+export const createFolder = async (
+  userId: string,
+  name: string,
+  parentId: string | null = null
+): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from('folders')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      parent_id: parentId
+    })
+    .select()
+    .single();
+
+  // 'conflict' when a folder with that name already exists here
+  if (error) throw toFileServiceError(error);
+
+  return toFolder(data);
+};
+
+// Resolves a chain of folder names below parentId, creating the missing ones.
+// Used for folder uploads, where several files may race to create a folder.
+export const ensureFolderPath = async (
+  userId: string,
+  parentId: string | null,
+  names: string[]
+): Promise<string | null> => {
+  let currentId = parentId;
+
+  for (const name of names) {
+    const existing = await getFolders(userId, currentId);
+    const match = existing.find(folder => folder.name.toLowerCase() === name.toLowerCase());
+
+    if (match) {
+      currentId = match.id;
+      continue;
+    }
+
+    try {
+      currentId = (await createFolder(userId, name, currentId)).id;
+    } catch (error) {
+      const retry = (await getFolders(userId, currentId))
+        .find(folder => folder.name.toLowerCase() === name.toLowerCase());
+      if (!retry) throw error;
+      currentId = retry.id;
+    }
   }
+
+  return currentId;
 };
 
-export const getFileByShareId = async (fileId: string): Promise<FileMetadata | null> => {
-  try {
-    const { data: fileData, error: fetchError } = await supabase
-      .from('file_metadata')
-      .select('*')
-      .eq('id', fileId)
-      .single();
+export const renameFolder = async (
+  folderId: string,
+  userId: string,
+  name: string
+): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from('folders')
+    .update({ name: name.trim() })
+    .eq('id', folderId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw toFileServiceError(error);
+
+  return toFolder(data);
+};
+
+export const moveFolder = async (
+  folderId: string,
+  userId: string,
+  parentId: string | null
+): Promise<Folder> => {
+  const { data, error } = await supabase
+    .from('folders')
+    .update({ parent_id: parentId })
+    .eq('id', folderId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw toFileServiceError(error);
+
+  return toFolder(data);
+};
+
+// Deletes a folder and its subfolders through the delete-folder function. The
+// files in them move to the root and into the trash.
+export const deleteFolder = async (folderId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('delete-folder', {
+    body: { folderId }
+  });
+
+  if (error) throw toFileServiceError(error);
+};
+
+export const setSharePassword = async (
+  fileId: string,
+  password: string | null
+): Promise<void> => {
+  const { error } = await supabase.rpc('set_share_password', {
+    p_file_id: fileId,
+    p_password: password ?? ''
+  });
+
+  if (error) throw toFileServiceError(error);
+};
+
+export interface BatchItemResult {
+  id: string;
+  ok: boolean;
+  error?: 'not_found' | 'failed';
+}
+
+export type BatchAction =
+  | { action: 'trash' }
+  | { action: 'restore' }
+  | { action: 'delete' }
+  | { action: 'set_expiration'; expiresIn: number | null }
+  | { action: 'move'; folderId: string | null };
+
+// The batch-files function takes at most this many ids per request.
+const BATCH_CHUNK_SIZE = 200;
 
-    if (fetchError || !fileData) {
-      return null;
+// Runs one action over many files, one request per chunk of ids. The server
+// reports success or failure for every id instead of failing the whole batch.
+export const runBatchAction = async (
+  fileIds: string[],
+  batch: BatchAction
+): Promise<BatchItemResult[]> => {
+  const results: BatchItemResult[] = [];
+
+  for (let start = 0; start < fileIds.length; start += BATCH_CHUNK_SIZE) {
+    const chunk = fileIds.slice(start, start + BATCH_CHUNK_SIZE);
+    const body = batch.action === 'set_expiration'
+      ? {
+          action: batch.action,
+          fileIds: chunk,
+          expiresAt: batch.expiresIn ? new Date(Date.now() + batch.expiresIn * 86400000).toISOString() : null
+        }
+      : { ...batch, fileIds: chunk };
+
+    const { data, error } = await supabase.functions.invoke('batch-files', { body });
+
+    if (error) throw toFileServiceError(error);
+
+    results.push(...data.results);
+  }
+
+  return results;
+};
+
+// ZIP archives come in two steps: an authorized request for a one-time
+// ticket, then a plain navigation to the archive so the browser streams it to
+// disk rather than holding it in memory.
+export const startZipDownload = (ticket: string) => {
+  window.location.href = `${SUPABASE_URL}/functions/v1/zip-files?ticket=${encodeURIComponent(ticket)}`;
+};
+
+export const downloadFilesAsZip = async (fileIds: string[], archiveName?: string): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('zip-files', {
+    body: { fileIds, archiveName }
+  });
+
+  if (error) throw toFileServiceError(error);
+
+  startZipDownload(data.ticket);
+};
+
+// Recipient side: every share is checked and counted as a download.
+export const downloadSharedFilesAsZip = async (
+  shares: { slug: string; password?: string }[],
+  archiveName?: string
+): Promise<void> => {
+  const { data, error } = await supabase.functions.invoke('zip-files', {
+    body: { shares, archiveName, referrer: document.referrer || undefined }
+  });
+
+  if (error) throw toFileServiceError(error);
+
+  startZipDownload(data.ticket);
+};
+
+export const getShareLink = (slug: string): string =>
+  `${window.location.origin}/share/${slug}`;
+
+// Replaces the file's link with one at the given slug. The previous link stops working.
+export const setCustomShareSlug = async (fileId: string, slug: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('set_custom_share_slug', {
+    p_file_id: fileId,
+    p_slug: slug
+  });
+
+  // 'conflict' when the slug is taken, 'invalid' when it has other characters
+  if (error) throw toFileServiceError(error);
+
+  return data;
+};
+
+// Issues a fresh random link; the previous one stops working at once.
+export const regenerateShareLink = async (fileId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('regenerate_share_link', { p_file_id: fileId });
+
+  if (error) throw toFileServiceError(error);
+
+  return data;
+};
+
+// Turns sharing off until a new link is generated.
+export const revokeShareLink = async (fileId: string): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_share_link', { p_file_id: fileId });
+
+  if (error) throw toFileServiceError(error);
+};
+
+// Every link the file has had, newest first, including revoked ones.
+export const getShareLinkHistory = async (fileId: string): Promise<ShareLinkRecord[]> => {
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('slug, is_custom, created_at, revoked_at')
+    .eq('file_id', fileId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.map(link => ({
+    slug: link.slug,
+    isCustom: link.is_custom,
+    createdAt: new Date(link.created_at),
+    revokedAt: link.revoked_at ? new Date(link.revoked_at) : null
+  }));
+};
+
+// Owner-side URLs, signed on demand instead of stored with the row. Works
+// for earlier versions too.
+export const getDownloadUrl = async (file: FileMetadata | FileVersion): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from('file_uploads')
+    .createSignedUrl(file.storagePath, 60, { download: file.originalName });
+
+  if (error) throw toFileServiceError(error);
+
+  return data.signedUrl;
+};
+
+export const THUMBNAIL_URL_TTL_SECONDS = 60 * 60;
+
+// Signed URLs by thumbnail path, so a file's new or restored version never
+// shows the previous version's thumbnail.
+export const getThumbnailUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from('thumbnails')
+    .createSignedUrls(paths, THUMBNAIL_URL_TTL_SECONDS);
+
+  if (error) throw toFileServiceError(error);
+
+  const urls: Record<string, string> = {};
+  data.forEach((entry, index) => {
+    if (entry.signedUrl) {
+      urls[paths[index]] = entry.signedUrl;
     }
+  });
+  return urls;
+};
 
-    return {
-      id: fileData.id,
-      userId: fileData.user_id,
-      originalName: fileData.original_name,
-      fileType: fileData.file_type,
-      size: fileData.size,
-      uploadDate: new Date(fileData.upload_date),
-      shareUrl: fileData.share_url,
-      expiresAt: fileData.expires_at ? new Date(fileData.expires_at) : null
-    };
-  } catch (error) {
-    console.error("Error fetching shared file:", error);
-    return null;
+// Lifetime of the preview URLs resolve-share signs
+export const PREVIEW_URL_TTL_SECONDS = 60;
+
+// Looks up a share through the resolve-share edge function, which checks
+// expiry, revocation and the password (if any). A 'download' request gets a
+// signed URL valid for about a minute, and so does 'preview'. Both are for the
+// current version unless `version` picks an earlier one.
+export const resolveShare = async (
+  slug: string,
+  { password, action = 'view', version }: { password?: string; action?: ShareAction; version?: number } = {}
+): Promise<ShareResolution> => {
+  const { data, error } = await supabase.functions.invoke('resolve-share', {
+    body: { slug, password, action, version, referrer: document.referrer || undefined }
+  });
+
+  if (error) {
+    if (!(error instanceof FunctionsHttpError)) throw toFileServiceError(error);
+
+    const body = await error.context.json().catch(() => ({}));
+    switch (body.error) {
+      case 'password_required':
+        return { status: 'password_required' };
+      case 'invalid_password':
+        return { status: 'invalid_password', attemptsLeft: body.attemptsLeft };
+      case 'locked':
+        return { status: 'locked', lockedUntil: new Date(body.lockedUntil) };
+      case 'expired':
+        return { status: 'expired', expiredAt: new Date(body.expiredAt) };
+      case 'revoked':
+        return { status: 'revoked', revokedAt: new Date(body.revokedAt) };
+      case 'limit_reached':
+        return { status: 'limit_reached' };
+      case 'not_found':
+        return { status: 'not_found' };
+      // The link still works; only the picked version is gone.
+      case 'version_not_found':
+        throw new FileServiceError({ kind: 'not_found' }, 'Version not found', error);
+      default:
+        throw toFileServiceError(error);
+    }
+  }
+
+  return {
+    status: 'ok',
+    downloadUrl: data.downloadUrl,
+    previewUrl: data.previewUrl ?? null,
+    file: {
+      ...data.file,
+      uploadDate: new Date(data.file.uploadDate),
+      expiresAt: data.file.expiresAt ? new Date(data.file.expiresAt) : null,
+      versions: (data.file.versions ?? []).map((version: Omit<SharedFileVersion, 'uploadDate'> & { uploadDate: string }) => ({
+        ...version,
+        uploadDate: new Date(version.uploadDate)
+      }))
+    }
+  };
+};
+
+const countBy = (values: (string | null)[], limit: number) => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    const label = value ?? 'Direct / unknown';
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  });
+  return Array.from(counts, ([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+export const getShareStats = async (fileId: string, days = 30): Promise<ShareStats> => {
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (days - 1));
+
+  const { data, error } = await supabase
+    .from('share_events')
+    .select('event_type, occurred_at, referrer, user_agent')
+    .eq('file_id', fileId)
+    .gte('occurred_at', since.toISOString())
+    .order('occurred_at');
+
+  if (error) throw toFileServiceError(error);
+
+  // One bucket per local calendar day, including days without activity
+  const daily = new Map<string, DailyShareActivity>();
+  for (let i = 0; i < days; i++) {
+    const day = new Date(since);
+    day.setDate(since.getDate() + i);
+    const key = day.toLocaleDateString('en-CA');
+    daily.set(key, { date: key, views: 0, downloads: 0 });
   }
+
+  data.forEach(event => {
+    const bucket = daily.get(new Date(event.occurred_at).toLocaleDateString('en-CA'));
+    if (!bucket) return;
+    if (event.event_type === 'download') {
+      bucket.downloads++;
+    } else {
+      bucket.views++;
+    }
+  });
+
+  const buckets = Array.from(daily.values());
+
+  return {
+    daily: buckets,
+    totalViews: buckets.reduce((sum, day) => sum + day.views, 0),
+    totalDownloads: buckets.reduce((sum, day) => sum + day.downloads, 0),
+    topReferrers: countBy(data.map(event => event.referrer), 3),
+    topUserAgents: countBy(data.map(event => event.user_agent), 3)
+  };
 };
 
 export const formatFileSize = (bytes: number): string => {
@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PlanLimits {
+  id: string;
+  name: string;
+  maxFileSize: number;
+}
+
+export const getCurrentPlan = async (): Promise<PlanLimits> => {
+  const { data, error } = await supabase.rpc('current_plan');
+
+  if (error) throw error;
+
+  return {
+    id: data.id,
+    name: data.name,
+    maxFileSize: data.max_file_size
+  };
+};
+
+export interface StorageUsageByType {
+  fileType: string;
+  bytes: number;
+  files: number;
+}
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+  byType: StorageUsageByType[];
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const { data, error } = await supabase.rpc('current_storage_usage');
+
+  if (error) throw error;
+
+  const usage = data as {
+    used: number;
+    quota: number;
+    by_type: { file_type: string; bytes: number; files: number }[];
+  };
+
+  return {
+    used: usage.used,
+    quota: usage.quota,
+    byType: usage.by_type.map(entry => ({
+      fileType: entry.file_type,
+      bytes: entry.bytes,
+      files: entry.files
+    }))
+  };
+};
@@ -0,0 +1,56 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+// Reduces a User-Agent header to "Browser on OS" so analytics never keep
+// the full, fingerprintable string.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/bot|crawler|spider|preview/i, "Bot"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+const match = (value: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(value))?.[1] ?? "Other";
+
+export const coarseUserAgent = (header: string | null): string | null =>
+  header ? `${match(header, BROWSERS)} on ${match(header, SYSTEMS)}` : null;
+
+// Keeps only the origin of a referrer, dropping paths and query strings.
+export const referrerOrigin = (referrer: string | undefined): string | null => {
+  if (!referrer) return null;
+  try {
+    return new URL(referrer).origin;
+  } catch {
+    return null;
+  }
+};
+
+// Analytics must never break a share, so failures are only logged.
+export const recordShareEvent = async (
+  req: Request,
+  fileId: string,
+  eventType: "view" | "download",
+  referrer: string | undefined,
+) => {
+  const { error } = await supabaseAdmin.from("share_events").insert({
+    file_id: fileId,
+    event_type: eventType,
+    user_agent: coarseUserAgent(req.headers.get("user-agent")),
+    referrer: referrerOrigin(referrer),
+  });
+
+  if (error) {
+    console.error("Error recording share event:", error);
+  }
+};
@@ -0,0 +1,14 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+// Scheduled jobs call in with the service role key; nothing else may trigger them.
+export const isServiceRoleRequest = (req: Request): boolean =>
+  req.headers.get("Authorization") === `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`;
+
+// The signed-in user behind a request from the app, or null for anonymous callers.
+export const getRequestUser = async (req: Request) => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  return error ? null : data.user;
+};
@@ -0,0 +1,15 @@
+// The header the edge proxy sets to the caller's address. Unlike
+// x-forwarded-for, a client cannot supply or prepend to it.
+const CLIENT_IP_HEADER = Deno.env.get("CLIENT_IP_HEADER") ?? "cf-connecting-ip";
+
+// Identifies a caller for rate limiting without storing their address: the
+// IP is hashed together with a server-side salt and the resource id.
+export const clientKey = async (req: Request, resourceId: string): Promise<string> => {
+  const ip = req.headers.get(CLIENT_IP_HEADER)?.trim() || "unknown";
+  const salt = Deno.env.get("CLIENT_KEY_SALT") ?? "";
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${salt}:${resourceId}:${ip}`),
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
@@ -0,0 +1,82 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import { clientKey } from "./clientKey.ts";
+
+// A file_metadata row as returned by get_shared_file.
+export interface SharedFileRow {
+  id: string;
+  storage_path: string;
+  original_name: string;
+  file_type: string;
+  size: number;
+  upload_date: string;
+  expires_at: string | null;
+  password_protected: boolean;
+  max_downloads: number | null;
+  download_count: number;
+  version: number;
+}
+
+export type ShareAccess =
+  | { ok: true; file: SharedFileRow }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+const denied = (status: number, body: Record<string, unknown>): ShareAccess => ({ ok: false, status, body });
+
+// Checks that a share link is live and the password (if any) is right. Failed
+// password attempts count towards the lockout for the calling client.
+export const authorizeShare = async (
+  req: Request,
+  slug: string,
+  password: string | undefined,
+): Promise<ShareAccess> => {
+  // get_shared_file hides expired and revoked shares.
+  const { data: file, error: fetchError } = await supabaseAdmin
+    .rpc("get_shared_file", { p_slug: slug })
+    .maybeSingle<SharedFileRow>();
+
+  if (fetchError) {
+    console.error("Error loading share:", fetchError);
+    return denied(500, { error: "server_error" });
+  }
+
+  if (!file) {
+    const { data: expiredAt } = await supabaseAdmin.rpc("share_expired_at", { p_slug: slug });
+    if (expiredAt) {
+      return denied(410, { error: "expired", expiredAt });
+    }
+    const { data: revokedAt } = await supabaseAdmin.rpc("share_revoked_at", { p_slug: slug });
+    if (revokedAt) {
+      return denied(410, { error: "revoked", revokedAt });
+    }
+    return denied(404, { error: "not_found" });
+  }
+
+  if (file.password_protected) {
+    if (!password) {
+      return denied(401, { error: "password_required" });
+    }
+
+    const { data: check, error: checkError } = await supabaseAdmin.rpc("check_share_password", {
+      p_file_id: file.id,
+      p_client_key: await clientKey(req, file.id),
+      p_password: password,
+    });
+
+    if (checkError) {
+      console.error("Error checking share password:", checkError);
+      return denied(500, { error: "server_error" });
+    }
+    if (!check.ok) {
+      if (check.locked_until) {
+        return denied(423, { error: "locked", lockedUntil: check.locked_until });
+      }
+      return denied(401, { error: "invalid_password", attemptsLeft: check.attempts_left });
+    }
+  }
+
+  if (file.max_downloads !== null && file.download_count >= file.max_downloads) {
+    return denied(410, { error: "limit_reached" });
+  }
+
+  return { ok: true, file };
+};
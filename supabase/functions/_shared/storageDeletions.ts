@@ -0,0 +1,61 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+const BATCH_SIZE = 500;
+
+export interface StorageDeletionResult {
+  removed: number;
+  failed: number;
+}
+
+// Removes queued objects from storage and clears their queue entries: the
+// ones for `fileIds`, or the whole queue. Entries whose removal fails keep
+// the error and stay queued for the next reconcile-storage run. Objects that
+// are already gone count as removed. Returns null if the queue can't be read.
+export const processStorageDeletions = async (fileIds?: string[]): Promise<StorageDeletionResult | null> => {
+  const result: StorageDeletionResult = { removed: 0, failed: 0 };
+  let lastId = 0;
+
+  while (true) {
+    let query = supabaseAdmin
+      .from("storage_deletions")
+      .select("id, bucket, path")
+      .gt("id", lastId)
+      .order("id")
+      .limit(BATCH_SIZE);
+    if (fileIds) query = query.in("file_id", fileIds);
+
+    const { data: entries, error: fetchError } = await query;
+    if (fetchError) {
+      console.error("Error reading storage deletions:", fetchError);
+      return null;
+    }
+    if (entries.length === 0) break;
+    lastId = entries[entries.length - 1].id;
+
+    const byBucket = new Map<string, typeof entries>();
+    entries.forEach((entry) => byBucket.set(entry.bucket, [...(byBucket.get(entry.bucket) ?? []), entry]));
+
+    for (const [bucket, bucketEntries] of byBucket) {
+      const ids = bucketEntries.map((entry) => entry.id);
+      const { error: storageError } = await supabaseAdmin.storage
+        .from(bucket)
+        .remove(bucketEntries.map((entry) => entry.path));
+
+      if (storageError) {
+        console.error(`Error removing objects from ${bucket}:`, storageError);
+        await supabaseAdmin.from("storage_deletions").update({ last_error: storageError.message }).in("id", ids);
+        result.failed += ids.length;
+        continue;
+      }
+
+      // If this fails the entries are retried later; removing twice is harmless.
+      const { error: deleteError } = await supabaseAdmin.from("storage_deletions").delete().in("id", ids);
+      if (deleteError) console.error("Error clearing storage deletions:", deleteError);
+      result.removed += ids.length;
+    }
+
+    if (entries.length < BATCH_SIZE) break;
+  }
+
+  return result;
+};
@@ -0,0 +1,8 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+// Service-role client: bypasses RLS, so every caller must do its own access checks.
+export const supabaseAdmin = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } },
+);
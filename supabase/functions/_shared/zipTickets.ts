@@ -0,0 +1,64 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+export interface ZipSource {
+  storage_path: string;
+  original_name: string;
+  size: number;
+  upload_date: string;
+}
+
+export interface ZipEntry {
+  storage_path: string;
+  name: string;
+  size: number;
+  upload_date: string;
+}
+
+// Names are chosen by the owner, so none may become a path when the archive
+// is extracted: "../a/b.txt" -> "a_b.txt", ".." -> "file"
+const safeName = (name: string): string => {
+  const segments = name.split(/[\\/]/).filter((segment) => segment !== "" && segment !== "." && segment !== "..");
+  return segments.join("_") || "file";
+};
+
+// "report.pdf", "report.pdf" -> "report.pdf", "report (2).pdf"
+const uniqueNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    const dot = name.lastIndexOf(".");
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+// Stores a one-time ticket for an archive of `files`; zip-files streams it on
+// GET. Access must already have been checked. Returns the ticket id, or null
+// if it could not be stored.
+export const createZipTicket = async (files: ZipSource[], archiveName: string | undefined): Promise<string | null> => {
+  const names = uniqueNames(files.map((file) => safeName(file.original_name)));
+  const entries = files.map((file, index): ZipEntry => ({
+    storage_path: file.storage_path,
+    name: names[index],
+    size: file.size,
+    upload_date: file.upload_date,
+  }));
+  const baseName = (archiveName?.trim() || "files").replace(/[\\/]/g, "_");
+
+  const { data: ticket, error } = await supabaseAdmin
+    .from("zip_downloads")
+    .insert({ archive_name: `${baseName}.zip`, entries })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error issuing zip ticket:", error);
+    return null;
+  }
+
+  return ticket.id;
+};
@@ -0,0 +1,180 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { processStorageDeletions } from "../_shared/storageDeletions.ts";
+
+// Keeps the id list within PostgREST's URL length for in() filters.
+const MAX_BATCH_SIZE = 200;
+
+type BatchRequest =
+  | { action: "trash"; fileIds: string[] }
+  | { action: "restore"; fileIds: string[] }
+  | { action: "delete"; fileIds: string[] }
+  | { action: "set_expiration"; fileIds: string[]; expiresAt: string | null }
+  | { action: "move"; fileIds: string[]; folderId: string | null };
+
+interface BatchItemResult {
+  id: string;
+  ok: boolean;
+  error?: "not_found" | "failed";
+}
+
+// Ids that were not found among the caller's files are reported per item
+// rather than failing the whole batch.
+const report = (fileIds: string[], succeeded: Set<string>, failed = new Set<string>()): BatchItemResult[] =>
+  fileIds.map((id) => {
+    if (succeeded.has(id)) return { id, ok: true };
+    return { id, ok: false, error: failed.has(id) ? "failed" : "not_found" };
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: "unauthorized" }, 401);
+  }
+
+  let body: BatchRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  const fileIds = [...new Set(Array.isArray(body.fileIds) ? body.fileIds : [])];
+  if (fileIds.length === 0 || fileIds.length > MAX_BATCH_SIZE) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  // Every action is scoped to the caller's own rows.
+  const { data: owned, error: fetchError } = await supabaseAdmin
+    .from("file_metadata")
+    .select("id, deleted_at")
+    .eq("user_id", user.id)
+    .in("id", fileIds);
+
+  if (fetchError) {
+    console.error("Error loading batch files:", fetchError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  const ownedIds = owned.map((file) => file.id);
+  if (ownedIds.length === 0) {
+    return jsonResponse({ results: report(fileIds, new Set()) });
+  }
+
+  switch (body.action) {
+    case "trash": {
+      // Files already in the trash keep the date they were trashed on, which
+      // their retention period counts from.
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from("file_metadata")
+        .update({ deleted_at: new Date().toISOString() })
+        .in("id", ownedIds)
+        .is("deleted_at", null)
+        .select("id");
+
+      if (updateError) {
+        console.error("Error running batch trash:", updateError);
+        return jsonResponse({ results: report(fileIds, new Set(), new Set(ownedIds)) });
+      }
+
+      const trashed = [...updated, ...owned.filter((file) => file.deleted_at !== null)].map((row) => row.id);
+      return jsonResponse({ results: report(fileIds, new Set(trashed), new Set(ownedIds)) });
+    }
+
+    case "restore": {
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from("file_metadata")
+        .update({ deleted_at: null })
+        .in("id", ownedIds)
+        .select("id");
+
+      if (updateError) {
+        console.error("Error running batch restore:", updateError);
+        return jsonResponse({ results: report(fileIds, new Set(), new Set(ownedIds)) });
+      }
+
+      return jsonResponse({ results: report(fileIds, new Set(updated.map((row) => row.id)), new Set(ownedIds)) });
+    }
+
+    // Permanent, and only for files in the trash.
+    case "delete": {
+      // Rows go first and queue their objects; see delete-file.
+      const { data: deleted, error: deleteError } = await supabaseAdmin
+        .from("file_metadata")
+        .delete()
+        .in("id", ownedIds)
+        .not("deleted_at", "is", null)
+        .select("id");
+
+      if (deleteError) {
+        console.error("Error deleting batch rows:", deleteError);
+        return jsonResponse({ results: report(fileIds, new Set(), new Set(ownedIds)) });
+      }
+
+      const deletedIds = deleted.map((row) => row.id);
+      if (deletedIds.length > 0) {
+        const storage = await processStorageDeletions(deletedIds);
+        if (!storage || storage.failed > 0) {
+          console.error("Objects of a batch delete left for reconcile-storage");
+        }
+      }
+
+      return jsonResponse({ results: report(fileIds, new Set(deletedIds), new Set(ownedIds)) });
+    }
+
+    case "set_expiration": {
+      if (body.expiresAt !== null && Number.isNaN(Date.parse(body.expiresAt))) {
+        return jsonResponse({ error: "invalid_request" }, 400);
+      }
+
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from("file_metadata")
+        .update({ expires_at: body.expiresAt })
+        .in("id", ownedIds)
+        .select("id");
+
+      if (updateError) {
+        console.error("Error updating batch expiration:", updateError);
+        return jsonResponse({ results: report(fileIds, new Set(), new Set(ownedIds)) });
+      }
+
+      return jsonResponse({ results: report(fileIds, new Set(updated.map((row) => row.id)), new Set(ownedIds)) });
+    }
+
+    case "move": {
+      if (body.folderId) {
+        const { data: folder } = await supabaseAdmin
+          .from("folders")
+          .select("id")
+          .eq("id", body.folderId)
+          .eq("user_id", user.id)
+          .maybeSingle();
+
+        if (!folder) {
+          return jsonResponse({ error: "folder_not_found" }, 404);
+        }
+      }
+
+      const { data: moved, error: moveError } = await supabaseAdmin
+        .from("file_metadata")
+        .update({ folder_id: body.folderId })
+        .in("id", ownedIds)
+        .select("id");
+
+      if (moveError) {
+        console.error("Error moving batch files:", moveError);
+        return jsonResponse({ results: report(fileIds, new Set(), new Set(ownedIds)) });
+      }
+
+      return jsonResponse({ results: report(fileIds, new Set(moved.map((row) => row.id)), new Set(ownedIds)) });
+    }
+
+    default:
+      return jsonResponse({ error: "invalid_request" }, 400);
+  }
+});
@@ -0,0 +1,98 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { processStorageDeletions } from "../_shared/storageDeletions.ts";
+
+// Expired files stay around this long so their owner can still extend the
+// link; recipients already see "link expired" during that time.
+const RETENTION_DAYS = Number(Deno.env.get("EXPIRED_RETENTION_DAYS") ?? "7");
+// Trashed files can be restored for this long.
+const TRASH_RETENTION_DAYS = Number(Deno.env.get("TRASH_RETENTION_DAYS") ?? "30");
+const BATCH_SIZE = 500;
+
+// Deletes the rows of every file whose `column` is before `cutoff`, a batch
+// at a time, then removes the objects they queued. Objects that fail to go
+// stay queued for reconcile-storage. Returns how many files went, or null on
+// failure.
+const purgeFiles = async (column: "expires_at" | "deleted_at", cutoff: string): Promise<number | null> => {
+  let removed = 0;
+
+  while (true) {
+    const { data: files, error: fetchError } = await supabaseAdmin
+      .from("file_metadata")
+      .select("id")
+      .lt(column, cutoff)
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error(`Error listing files by ${column}:`, fetchError);
+      return null;
+    }
+    if (files.length === 0) break;
+
+    const fileIds = files.map((file) => file.id);
+    const { error: deleteError } = await supabaseAdmin
+      .from("file_metadata")
+      .delete()
+      .in("id", fileIds);
+
+    if (deleteError) {
+      console.error("Error deleting rows:", deleteError);
+      return null;
+    }
+
+    const storage = await processStorageDeletions(fileIds);
+    if (!storage || storage.failed > 0) {
+      console.error("Purged objects left for reconcile-storage");
+    }
+
+    removed += files.length;
+    if (files.length < BATCH_SIZE) break;
+  }
+
+  return removed;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "forbidden" }, 403);
+  }
+
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 86400000).toISOString();
+  const removed = await purgeFiles("expires_at", cutoff);
+  if (removed === null) {
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  const trashCutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 86400000).toISOString();
+  const purged = await purgeFiles("deleted_at", trashCutoff);
+  if (purged === null) {
+    return jsonResponse({ error: "server_error", removed }, 500);
+  }
+
+  // Collections only hold links to files, so expired ones can simply go.
+  const { error: collectionError } = await supabaseAdmin
+    .from("collections")
+    .delete()
+    .lt("expires_at", cutoff);
+
+  if (collectionError) {
+    console.error("Error deleting expired collections:", collectionError);
+  }
+
+  // Spent and abandoned ZIP tickets
+  const { error: ticketError } = await supabaseAdmin
+    .from("zip_downloads")
+    .delete()
+    .lt("expires_at", new Date(Date.now() - 86400000).toISOString());
+
+  if (ticketError) {
+    console.error("Error deleting old zip tickets:", ticketError);
+  }
+
+  return jsonResponse({ removed, purged });
+});
@@ -0,0 +1,70 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { processStorageDeletions } from "../_shared/storageDeletions.ts";
+
+// Deletes one of the caller's files for good, or with `version` only that
+// earlier version of it. The row goes first and queues its objects in the
+// same transaction, so a failed storage removal leaves a queued object for
+// reconcile-storage rather than a row without its object.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: "unauthorized" }, 401);
+  }
+
+  let fileId: unknown;
+  let version: unknown;
+  try {
+    ({ fileId, version } = await req.json());
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (typeof fileId !== "string" || (version !== undefined && !Number.isInteger(version))) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  // Versions have no user_id of their own; check the file they belong to.
+  if (version !== undefined) {
+    const { data: file, error: ownerError } = await supabaseAdmin
+      .from("file_metadata")
+      .select("id")
+      .eq("id", fileId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (ownerError) {
+      console.error("Error loading file:", ownerError);
+      return jsonResponse({ error: "server_error" }, 500);
+    }
+    if (!file) {
+      return jsonResponse({ error: "not_found" }, 404);
+    }
+  }
+
+  const { data: deleted, error: deleteError } = version === undefined
+    ? await supabaseAdmin.from("file_metadata").delete().eq("id", fileId).eq("user_id", user.id).select("id")
+    : await supabaseAdmin.from("file_versions").delete().eq("file_id", fileId).eq("version", version).select("id");
+
+  if (deleteError) {
+    console.error("Error deleting file row:", deleteError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  if (deleted.length === 0) {
+    return jsonResponse({ error: "not_found" }, 404);
+  }
+
+  // The file is gone either way; leftovers are only logged.
+  const storage = await processStorageDeletions([fileId]);
+  if (!storage || storage.failed > 0) {
+    console.error(`Objects of file ${fileId} left for reconcile-storage`);
+  }
+
+  return jsonResponse({ deleted: true });
+});
@@ -0,0 +1,89 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { processStorageDeletions } from "../_shared/storageDeletions.ts";
+
+// Deletes one of the caller's folders with its subfolders. The files in them
+// move to the root and into the trash first. Anything the cascade still
+// catches goes as in delete-file: the rows go first and queue their objects in
+// the same transaction, and the objects are removed afterwards.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return jsonResponse({ error: "unauthorized" }, 401);
+  }
+
+  let folderId: unknown;
+  try {
+    ({ folderId } = await req.json());
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (typeof folderId !== "string") {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  const { data: folder, error: folderError } = await supabaseAdmin
+    .from("folders")
+    .select("id")
+    .eq("id", folderId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (folderError) {
+    console.error("Error loading folder:", folderError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+  if (!folder) {
+    return jsonResponse({ error: "not_found" }, 404);
+  }
+
+  const { data: trashed, error: trashError } = await supabaseAdmin
+    .rpc("trash_folder_files", { p_folder_id: folderId });
+
+  if (trashError) {
+    console.error("Error moving folder files to the trash:", trashError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  // Files added to the folder since are caught by the cascade below.
+  const { data: fileIds, error: idsError } = await supabaseAdmin
+    .rpc("folder_file_ids", { p_folder_id: folderId });
+
+  if (idsError) {
+    console.error("Error listing folder files:", idsError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  // Subfolders and their files go with it through on delete cascade
+  const { data: deleted, error: deleteError } = await supabaseAdmin
+    .from("folders")
+    .delete()
+    .eq("id", folderId)
+    .eq("user_id", user.id)
+    .select("id");
+
+  if (deleteError) {
+    console.error("Error deleting folder:", deleteError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  if (deleted.length === 0) {
+    return jsonResponse({ error: "not_found" }, 404);
+  }
+
+  // Files added after the listing above are queued too and left for reconcile-storage.
+  if (fileIds.length > 0) {
+    const storage = await processStorageDeletions(fileIds);
+    if (!storage || storage.failed > 0) {
+      console.error(`Objects of folder ${folderId} left for reconcile-storage`);
+    }
+  }
+
+  return jsonResponse({ deleted: true, trashed });
+});
@@ -0,0 +1,109 @@
+import { decode, Image } from "npm:imagescript@1.3.0";
+import * as mupdf from "npm:mupdf@1.28.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+
+const THUMBNAIL_SIZE = 320;
+const JPEG_QUALITY = 80;
+// Decoding happens in memory; a 24MP photo already needs ~100MB of pixels.
+const MAX_SOURCE_SIZE = Number(Deno.env.get("THUMBNAIL_MAX_SOURCE_BYTES") ?? String(30 * 1024 * 1024));
+// Formats imagescript can decode, plus PDFs, whose first page MuPDF renders.
+// Videos get their thumbnail from the uploading browser instead; the edge
+// runtime has no video decoder.
+const SUPPORTED_TYPES = ["image/jpeg", "image/png", "image/gif", "image/tiff", "application/pdf"];
+
+interface ThumbnailRequest {
+  storagePath?: string;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+const renderImage = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  // Animated GIFs only need their first frame.
+  const decoded = await decode(bytes, true);
+  const image = decoded instanceof Image ? decoded : decoded[0];
+
+  if (image.width >= image.height) {
+    image.resize(Math.min(THUMBNAIL_SIZE, image.width), Image.RESIZE_AUTO);
+  } else {
+    image.resize(Image.RESIZE_AUTO, Math.min(THUMBNAIL_SIZE, image.height));
+  }
+
+  // JPEG has no alpha channel; flatten transparent images onto white.
+  const background = new Image(image.width, image.height).fill(0xffffffff);
+  return background.composite(image).encodeJPEG(JPEG_QUALITY);
+};
+
+// Only the first page is rendered, straight at thumbnail size and onto white.
+const renderPdfPage = (bytes: Uint8Array): Uint8Array => {
+  const document = mupdf.Document.openDocument(bytes, "application/pdf");
+  try {
+    const page = document.loadPage(0);
+    const [x0, y0, x1, y1] = page.getBounds();
+    const scale = THUMBNAIL_SIZE / Math.max(x1 - x0, y1 - y0);
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+    return pixmap.asJPEG(JPEG_QUALITY);
+  } finally {
+    document.destroy();
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // Called by the storage trigger only.
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "forbidden" }, 403);
+  }
+
+  let body: ThumbnailRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (!body.storagePath) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+  if (!body.mimeType || !SUPPORTED_TYPES.includes(body.mimeType)) {
+    return jsonResponse({ skipped: "unsupported_type" });
+  }
+  if (body.size && body.size > MAX_SOURCE_SIZE) {
+    return jsonResponse({ skipped: "too_large" });
+  }
+
+  const { data: original, error: downloadError } = await supabaseAdmin.storage
+    .from("file_uploads")
+    .download(body.storagePath);
+
+  if (downloadError || !original) {
+    console.error("Error downloading original:", downloadError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  let thumbnail: Uint8Array;
+  try {
+    const bytes = new Uint8Array(await original.arrayBuffer());
+    thumbnail = body.mimeType === "application/pdf" ? renderPdfPage(bytes) : await renderImage(bytes);
+  } catch (error) {
+    // Corrupt or mislabelled files simply get no thumbnail.
+    console.error("Error rendering thumbnail:", error);
+    return jsonResponse({ skipped: "undecodable" });
+  }
+
+  // The objects_link_thumbnail trigger points file_metadata at the new object.
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from("thumbnails")
+    .upload(`${body.storagePath}.jpg`, thumbnail, { contentType: "image/jpeg", upsert: true });
+
+  if (uploadError) {
+    console.error("Error storing thumbnail:", uploadError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  return jsonResponse({ thumbnailPath: `${body.storagePath}.jpg` });
+});
@@ -0,0 +1,70 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { processStorageDeletions } from "../_shared/storageDeletions.ts";
+
+// Uploads newer than this may still be waiting for their row.
+const ORPHAN_MIN_AGE = Deno.env.get("ORPHAN_MIN_AGE") ?? "1 day";
+const BATCH_SIZE = 500;
+
+// Brings file rows and storage objects back in line, in both directions:
+// rows and versions whose object is missing are deleted, and objects without
+// either are queued and removed along with anything left in the deletion queue.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return jsonResponse({ error: "forbidden" }, 403);
+  }
+
+  let missingObjects = 0;
+  while (true) {
+    const { data: rows, error: findError } = await supabaseAdmin
+      .rpc("find_files_missing_objects", { p_limit: BATCH_SIZE });
+
+    if (findError) {
+      console.error("Error finding rows without objects:", findError);
+      return jsonResponse({ error: "server_error" }, 500);
+    }
+    if (rows.length === 0) break;
+
+    // Queues their thumbnails, if any, through the delete trigger.
+    const { error: deleteError } = await supabaseAdmin
+      .from("file_metadata")
+      .delete()
+      .in("id", rows.map((row: { id: string }) => row.id));
+
+    if (deleteError) {
+      console.error("Error deleting rows without objects:", deleteError);
+      return jsonResponse({ error: "server_error", missingObjects }, 500);
+    }
+
+    missingObjects += rows.length;
+    if (rows.length < BATCH_SIZE) break;
+  }
+
+  const { data: missingVersions, error: versionsError } = await supabaseAdmin
+    .rpc("delete_versions_missing_objects");
+
+  if (versionsError) {
+    console.error("Error deleting versions without objects:", versionsError);
+    return jsonResponse({ error: "server_error", missingObjects }, 500);
+  }
+
+  const { data: orphanedObjects, error: queueError } = await supabaseAdmin
+    .rpc("queue_orphaned_objects", { p_min_age: ORPHAN_MIN_AGE });
+
+  if (queueError) {
+    console.error("Error queueing orphaned objects:", queueError);
+    return jsonResponse({ error: "server_error", missingObjects, missingVersions }, 500);
+  }
+
+  const storage = await processStorageDeletions();
+  if (!storage) {
+    return jsonResponse({ error: "server_error", missingObjects, missingVersions, orphanedObjects }, 500);
+  }
+
+  return jsonResponse({ missingObjects, missingVersions, orphanedObjects, ...storage });
+});
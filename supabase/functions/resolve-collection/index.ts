@@ -0,0 +1,171 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { clientKey } from "../_shared/clientKey.ts";
+import { recordShareEvent } from "../_shared/analytics.ts";
+import { SharedFileRow } from "../_shared/shareAccess.ts";
+import { createZipTicket } from "../_shared/zipTickets.ts";
+
+// Signed URLs handed to recipients only need to outlive the redirect.
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+
+interface ResolveCollectionRequest {
+  collectionId?: string;
+  password?: string;
+  // 'view' lists the files; 'download' signs one of them; 'download_all'
+  // issues a ZIP ticket for all of them.
+  action?: "view" | "download" | "download_all";
+  fileId?: string;
+  referrer?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: ResolveCollectionRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (!body.collectionId) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  const { data: collection, error: fetchError } = await supabaseAdmin
+    .rpc("get_shared_collection", { p_collection_id: body.collectionId })
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("Error loading collection:", fetchError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  if (!collection) {
+    const { data: expiredAt } = await supabaseAdmin.rpc("collection_expired_at", {
+      p_collection_id: body.collectionId,
+    });
+    if (expiredAt) {
+      return jsonResponse({ error: "expired", expiredAt }, 410);
+    }
+    return jsonResponse({ error: "not_found" }, 404);
+  }
+
+  if (collection.password_protected) {
+    if (!body.password) {
+      return jsonResponse({ error: "password_required" }, 401);
+    }
+
+    const { data: check, error: checkError } = await supabaseAdmin.rpc("check_collection_password", {
+      p_collection_id: collection.id,
+      p_client_key: await clientKey(req, collection.id),
+      p_password: body.password,
+    });
+
+    if (checkError) {
+      console.error("Error checking collection password:", checkError);
+      return jsonResponse({ error: "server_error" }, 500);
+    }
+    if (!check.ok) {
+      if (check.locked_until) {
+        return jsonResponse({ error: "locked", lockedUntil: check.locked_until }, 423);
+      }
+      return jsonResponse({ error: "invalid_password", attemptsLeft: check.attempts_left }, 401);
+    }
+  }
+
+  // Files whose own link is no longer live are left out.
+  const { data: files, error: filesError } = await supabaseAdmin
+    .rpc("get_collection_files", { p_collection_id: collection.id })
+    .returns<SharedFileRow[]>();
+
+  if (filesError) {
+    console.error("Error loading collection files:", filesError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  // Downloads through a collection count towards each file's own limit.
+  const consume = async (file: SharedFileRow) => {
+    const { data: downloadCount, error } = await supabaseAdmin
+      .rpc("consume_share_download", { p_file_id: file.id });
+
+    if (error) {
+      console.error("Error counting download:", error);
+      return false;
+    }
+    if (downloadCount === null) return false;
+
+    await recordShareEvent(req, file.id, "download", body.referrer);
+    return true;
+  };
+
+  if (body.action === "download") {
+    const file = files.find((candidate) => candidate.id === body.fileId);
+    if (!file) {
+      return jsonResponse({ error: "file_not_found" }, 404);
+    }
+    if (!(await consume(file))) {
+      return jsonResponse({ error: "limit_reached" }, 410);
+    }
+
+    const { data: signed, error: signError } = await supabaseAdmin.storage
+      .from("file_uploads")
+      .createSignedUrl(file.storage_path, DOWNLOAD_URL_TTL_SECONDS, { download: file.original_name });
+
+    if (signError || !signed) {
+      console.error("Error signing download URL:", signError);
+      return jsonResponse({ error: "server_error" }, 500);
+    }
+
+    return jsonResponse({ downloadUrl: signed.signedUrl });
+  }
+
+  // The ticket is stored before anything is counted, so a failure leaves the
+  // limits untouched; a ticket that is never handed out just expires. Files
+  // whose limit runs out in the meantime are left out of the next attempt.
+  if (body.action === "download_all") {
+    let included = files;
+    while (included.length > 0) {
+      const ticket = await createZipTicket(included, collection.name);
+      if (!ticket) {
+        return jsonResponse({ error: "server_error" }, 500);
+      }
+
+      const { data: exhaustedId, error } = await supabaseAdmin
+        .rpc("consume_share_downloads", { p_file_ids: included.map((file) => file.id) });
+
+      if (error) {
+        console.error("Error counting downloads:", error);
+        return jsonResponse({ error: "server_error" }, 500);
+      }
+      if (!exhaustedId) {
+        for (const file of included) {
+          await recordShareEvent(req, file.id, "download", body.referrer);
+        }
+        return jsonResponse({ ticket });
+      }
+
+      included = included.filter((file) => file.id !== exhaustedId);
+    }
+
+    return jsonResponse({ error: "empty" }, 410);
+  }
+
+  return jsonResponse({
+    collection: {
+      id: collection.id,
+      name: collection.name,
+      expiresAt: collection.expires_at,
+      passwordProtected: collection.password_protected,
+      files: files.map((file) => ({
+        id: file.id,
+        originalName: file.original_name,
+        fileType: file.file_type,
+        size: file.size,
+        uploadDate: file.upload_date,
+      })),
+    },
+  });
+});
@@ -0,0 +1,147 @@
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { authorizeShare } from "../_shared/shareAccess.ts";
+import { recordShareEvent } from "../_shared/analytics.ts";
+
+// Signed URLs handed to recipients only need to outlive the redirect.
+const DOWNLOAD_URL_TTL_SECONDS = 60;
+// Short, so a revoked or trashed file stops being viewable right away. Media
+// players ask for a new URL when theirs runs out mid-playback.
+const PREVIEW_URL_TTL_SECONDS = 60;
+
+interface ResolveShareRequest {
+  // The slug from the share URL; recipients never learn the file's id.
+  slug?: string;
+  password?: string;
+  // 'view' returns metadata only; 'download' and 'preview' also sign a URL.
+  action?: "view" | "download" | "preview";
+  // document.referrer of the share page; reduced to its origin before storing.
+  referrer?: string;
+  // An earlier version to download or preview instead of the current one.
+  version?: number;
+}
+
+interface FileVersionRow {
+  version: number;
+  storage_path: string;
+  original_name: string;
+  file_type: string;
+  size: number;
+  created_at: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  let body: ResolveShareRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (!body.slug) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  const access = await authorizeShare(req, body.slug, body.password);
+  if (!access.ok) {
+    return jsonResponse(access.body, access.status);
+  }
+  const { file } = access;
+
+  const { data: versions, error: versionsError } = await supabaseAdmin
+    .rpc("get_shared_file_versions", { p_file_id: file.id })
+    .returns<FileVersionRow[]>();
+
+  if (versionsError) {
+    console.error("Error loading file versions:", versionsError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  // The content to sign: the current one unless an earlier version was picked.
+  let content = { storage_path: file.storage_path, original_name: file.original_name };
+  if (body.version !== undefined && body.version !== file.version) {
+    const picked = versions.find((version) => version.version === body.version);
+    if (!picked) {
+      return jsonResponse({ error: "version_not_found" }, 404);
+    }
+    content = picked;
+  }
+
+  const details = {
+    originalName: file.original_name,
+    fileType: file.file_type,
+    size: file.size,
+    uploadDate: file.upload_date,
+    expiresAt: file.expires_at,
+    passwordProtected: file.password_protected,
+    downloadsLeft: file.max_downloads === null ? null : file.max_downloads - file.download_count,
+    // Previewing would get around a download limit, so limited shares have none.
+    previewAvailable: file.max_downloads === null,
+    version: file.version,
+    // Earlier versions, newest first
+    versions: versions.map((version) => ({
+      version: version.version,
+      originalName: version.original_name,
+      fileType: version.file_type,
+      size: version.size,
+      uploadDate: version.created_at,
+    })),
+  };
+
+  if (body.action === "preview") {
+    if (!details.previewAvailable) {
+      return jsonResponse({ file: details, downloadUrl: null, previewUrl: null });
+    }
+
+    const { data: preview, error: previewError } = await supabaseAdmin.storage
+      .from("file_uploads")
+      .createSignedUrl(content.storage_path, PREVIEW_URL_TTL_SECONDS);
+
+    if (previewError || !preview) {
+      console.error("Error signing preview URL:", previewError);
+      return jsonResponse({ error: "server_error" }, 500);
+    }
+
+    return jsonResponse({ file: details, downloadUrl: null, previewUrl: preview.signedUrl });
+  }
+
+  if (body.action !== "download") {
+    await recordShareEvent(req, file.id, "view", body.referrer);
+    return jsonResponse({ file: details, downloadUrl: null });
+  }
+
+  // Count before signing: a URL is only handed out for a download that fit the limit.
+  const { data: downloadCount, error: countError } = await supabaseAdmin
+    .rpc("consume_share_download", { p_file_id: file.id });
+
+  if (countError) {
+    console.error("Error counting download:", countError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+  if (downloadCount === null) {
+    return jsonResponse({ error: "limit_reached" }, 410);
+  }
+
+  const { data: signed, error: signError } = await supabaseAdmin.storage
+    .from("file_uploads")
+    .createSignedUrl(content.storage_path, DOWNLOAD_URL_TTL_SECONDS, { download: content.original_name });
+
+  if (signError || !signed) {
+    console.error("Error signing download URL:", signError);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  await recordShareEvent(req, file.id, "download", body.referrer);
+
+  return jsonResponse({
+    file: {
+      ...details,
+      downloadsLeft: file.max_downloads === null ? null : file.max_downloads - downloadCount,
+    },
+    downloadUrl: signed.signedUrl,
+  });
+});
@@ -0,0 +1,197 @@
+import { downloadZip } from "npm:client-zip@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { authorizeShare, SharedFileRow } from "../_shared/shareAccess.ts";
+import { recordShareEvent } from "../_shared/analytics.ts";
+import { createZipTicket, ZipEntry } from "../_shared/zipTickets.ts";
+
+const MAX_ZIP_FILES = 200;
+// Each entry is fetched only when the archive reaches it, which can be a while
+// into a large download.
+const SOURCE_URL_TTL_SECONDS = 60 * 60;
+
+interface ZipRequest {
+  // Owner downloads: ids of the caller's own files.
+  fileIds?: string[];
+  // Recipient downloads: share links and their passwords.
+  shares?: { slug: string; password?: string }[];
+  archiveName?: string;
+  referrer?: string;
+}
+
+// Quotes a filename for Content-Disposition, with a UTF-8 variant for non-ASCII names.
+const contentDisposition = (name: string) =>
+  `attachment; filename="${name.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+
+const ownerFiles = async (req: Request, fileIds: string[]) => {
+  const user = await getRequestUser(req);
+  if (!user) {
+    return { error: jsonResponse({ error: "unauthorized" }, 401) };
+  }
+
+  const { data: files, error } = await supabaseAdmin
+    .from("file_metadata")
+    .select("storage_path, original_name, size, upload_date")
+    .eq("user_id", user.id)
+    .is("deleted_at", null)
+    .in("id", fileIds);
+
+  if (error) {
+    console.error("Error loading zip files:", error);
+    return { error: jsonResponse({ error: "server_error" }, 500) };
+  }
+  if (files.length === 0) {
+    return { error: jsonResponse({ error: "not_found" }, 404) };
+  }
+
+  return { files };
+};
+
+// Every share is checked like a single download.
+const shareFiles = async (req: Request, shares: { slug: string; password?: string }[]) => {
+  const files: SharedFileRow[] = [];
+
+  for (const share of shares) {
+    const access = await authorizeShare(req, share.slug, share.password);
+    if (!access.ok) {
+      return { error: jsonResponse({ ...access.body, slug: share.slug }, access.status) };
+    }
+    files.push(access.file);
+  }
+
+  return { files };
+};
+
+// Each share counts as one download. They are counted together once the
+// ticket is stored, so a share that is used up, or a ticket that could not be
+// stored, leaves the others untouched.
+const countShareDownloads = async (
+  req: Request,
+  files: SharedFileRow[],
+  shares: { slug: string }[],
+  referrer?: string,
+) => {
+  const { data: exhaustedId, error } = await supabaseAdmin
+    .rpc("consume_share_downloads", { p_file_ids: files.map((file) => file.id) });
+
+  if (error) {
+    console.error("Error counting downloads:", error);
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+  if (exhaustedId) {
+    const index = files.findIndex((file) => file.id === exhaustedId);
+    return jsonResponse({ error: "limit_reached", slug: shares[index].slug }, 410);
+  }
+
+  for (const file of files) {
+    await recordShareEvent(req, file.id, "download", referrer);
+  }
+
+  return null;
+};
+
+const issueTicket = async (req: Request) => {
+  let body: ZipRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  const fileIds = [...new Set(body.fileIds ?? [])];
+  const shares = body.shares ?? [];
+  const count = fileIds.length + shares.length;
+  if (count === 0 || count > MAX_ZIP_FILES || (fileIds.length > 0 && shares.length > 0)) {
+    return jsonResponse({ error: "invalid_request" }, 400);
+  }
+
+  if (fileIds.length > 0) {
+    const result = await ownerFiles(req, fileIds);
+    if (result.error) return result.error;
+
+    const ticket = await createZipTicket(result.files, body.archiveName);
+    return ticket ? jsonResponse({ ticket }) : jsonResponse({ error: "server_error" }, 500);
+  }
+
+  const result = await shareFiles(req, shares);
+  if (result.error) return result.error;
+
+  const ticket = await createZipTicket(result.files, body.archiveName);
+  if (!ticket) {
+    return jsonResponse({ error: "server_error" }, 500);
+  }
+
+  // A ticket that is never handed out just expires.
+  const countError = await countShareDownloads(req, result.files, shares, body.referrer);
+  return countError ?? jsonResponse({ ticket });
+};
+
+const streamArchive = async (ticketId: string) => {
+  // Redeeming is a single conditional update, so a ticket works exactly once.
+  const { data: ticket, error } = await supabaseAdmin
+    .from("zip_downloads")
+    .update({ redeemed_at: new Date().toISOString() })
+    .eq("id", ticketId)
+    .is("redeemed_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("archive_name, entries")
+    .maybeSingle();
+
+  if (error || !ticket) {
+    if (error) console.error("Error redeeming zip ticket:", error);
+    return new Response("This download link has expired. Please start the download again.", { status: 410 });
+  }
+
+  const entries = ticket.entries as ZipEntry[];
+
+  // Entries are produced lazily, so only one object is in flight at a time and
+  // the archive streams out as it is built.
+  async function* files() {
+    for (const entry of entries) {
+      const { data: signed, error: signError } = await supabaseAdmin.storage
+        .from("file_uploads")
+        .createSignedUrl(entry.storage_path, SOURCE_URL_TTL_SECONDS);
+
+      if (signError || !signed) {
+        throw new Error(`Could not sign ${entry.storage_path}: ${signError?.message}`);
+      }
+
+      const source = await fetch(signed.signedUrl);
+      if (!source.ok || !source.body) {
+        throw new Error(`Could not read ${entry.storage_path}: ${source.status}`);
+      }
+
+      yield {
+        name: entry.name,
+        input: source.body,
+        size: entry.size,
+        lastModified: new Date(entry.upload_date),
+      };
+    }
+  }
+
+  return new Response(downloadZip(files()).body, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": contentDisposition(ticket.archive_name),
+    },
+  });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // GET ?ticket=... streams an archive; POST issues a ticket.
+  if (req.method === "GET") {
+    const ticketId = new URL(req.url).searchParams.get("ticket");
+    if (!ticketId) {
+      return new Response("Missing ticket", { status: 400 });
+    }
+    return streamArchive(ticketId);
+  }
+
+  return issueTicket(req);
+});
@@ -0,0 +1,80 @@
+-- Per-plan upload limits. A user's plan comes from auth app_metadata.plan,
+-- which only the service role can set, and falls back to 'free'.
+create table public.plans (
+  id text primary key,
+  name text not null,
+  max_file_size bigint not null check (max_file_size > 0)
+);
+
+insert into public.plans (id, name, max_file_size) values
+  ('free', 'Free', 50 * 1024 * 1024),
+  ('pro', 'Pro', 5 * 1024 * 1024 * 1024::bigint);
+
+alter table public.plans enable row level security;
+
+create policy "Plans are readable by everyone"
+  on public.plans for select
+  using (true);
+
+create or replace function public.plan_for_user(p_user_id uuid)
+returns public.plans
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.*
+  from public.plans p
+  where p.id = coalesce(
+    (select u.raw_app_meta_data ->> 'plan' from auth.users u where u.id = p_user_id),
+    'free'
+  );
+$$;
+
+revoke execute on function public.plan_for_user(uuid) from public, anon, authenticated;
+
+create or replace function public.current_plan()
+returns public.plans
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.plan_for_user(auth.uid());
+$$;
+
+grant execute on function public.current_plan() to authenticated;
+
+-- The client checks the limit before uploading; this is the check that counts.
+-- It measures the stored object, since the row's size comes from the client.
+create or replace function public.enforce_plan_file_size()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_limit bigint;
+  v_size bigint;
+begin
+  select (metadata ->> 'size')::bigint into v_size
+  from storage.objects
+  where bucket_id = 'file_uploads' and name = new.storage_path;
+
+  select max_file_size into v_limit from public.plan_for_user(new.user_id);
+  if greatest(v_size, new.size) > v_limit then
+    raise exception 'File size exceeds the plan limit of % bytes', v_limit
+      using errcode = 'check_violation', hint = 'plan_file_size';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger file_metadata_enforce_plan_file_size
+  before insert or update of size, storage_path on public.file_metadata
+  for each row execute function public.enforce_plan_file_size();
+
+-- The bucket cap has to admit the largest plan; per-plan limits apply above.
+update storage.buckets
+set file_size_limit = (select max(max_file_size) from public.plans)
+where id = 'file_uploads';
@@ -0,0 +1,106 @@
+-- Hierarchical folders. Files and folders without a parent live at the root.
+create table public.folders (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid references public.folders (id) on delete cascade,
+  name text not null check (length(btrim(name)) > 0 and position('/' in name) = 0),
+  created_at timestamptz not null default now()
+);
+
+-- Sibling names are unique per user, case-insensitively; the root has no parent row.
+create unique index folders_sibling_name_key
+  on public.folders (user_id, coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+create index folders_parent_id_idx on public.folders (parent_id);
+
+alter table public.folders enable row level security;
+
+create policy "Users manage their own folders"
+  on public.folders for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table public.file_metadata
+  add column folder_id uuid references public.folders (id) on delete cascade;
+
+create index file_metadata_user_folder_idx on public.file_metadata (user_id, folder_id);
+
+-- Parents must belong to the same user, and a folder may not move into its own subtree.
+create or replace function public.check_folder_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if not exists (select 1 from public.folders where id = new.parent_id and user_id = new.user_id) then
+    raise exception 'Parent folder not found' using errcode = 'foreign_key_violation';
+  end if;
+
+  if tg_op = 'UPDATE' and exists (
+    with recursive ancestors as (
+      select id, parent_id from public.folders where id = new.parent_id
+      union all
+      select f.id, f.parent_id from public.folders f join ancestors a on f.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'A folder cannot be moved into itself' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger folders_check_parent
+  before insert or update of parent_id on public.folders
+  for each row execute function public.check_folder_parent();
+
+create or replace function public.check_file_folder()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.folder_id is not null
+     and not exists (select 1 from public.folders where id = new.folder_id and user_id = new.user_id) then
+    raise exception 'Folder not found' using errcode = 'foreign_key_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger file_metadata_check_folder
+  before insert or update of folder_id on public.file_metadata
+  for each row execute function public.check_file_folder();
+
+-- Ancestors of a folder, root first, for breadcrumbs.
+create or replace function public.folder_path(p_folder_id uuid)
+returns setof public.folders
+language sql
+stable
+as $$
+  with recursive ancestors as (
+    select f.*, 0 as depth from public.folders f where f.id = p_folder_id
+    union all
+    select f.*, a.depth + 1 from public.folders f join ancestors a on f.id = a.parent_id
+  )
+  select id, user_id, parent_id, name, created_at from ancestors order by depth desc;
+$$;
+
+-- Storage paths of every file under a folder, so the objects can be removed
+-- before the cascade drops their metadata.
+create or replace function public.folder_storage_paths(p_folder_id uuid)
+returns setof text
+language sql
+stable
+as $$
+  with recursive subtree as (
+    select id from public.folders where id = p_folder_id
+    union all
+    select f.id from public.folders f join subtree s on f.parent_id = s.id
+  )
+  select m.storage_path
+  from public.file_metadata m
+  where m.folder_id in (select id from subtree);
+$$;
@@ -0,0 +1,149 @@
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.file_metadata
+  add column password_protected boolean not null default false;
+
+-- Hashes live in their own table with RLS on and no policies, so no client
+-- role can read them; only the security definer functions below touch it.
+create table public.share_passwords (
+  file_id uuid primary key references public.file_metadata (id) on delete cascade,
+  password_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.share_passwords enable row level security;
+
+-- Failed attempts per share and client. client_key is a salted hash of the
+-- caller's address, computed by the resolve-share function; raw IPs are never stored.
+create table public.share_password_attempts (
+  file_id uuid not null references public.file_metadata (id) on delete cascade,
+  client_key text not null,
+  failed_count integer not null default 0,
+  locked_until timestamptz,
+  last_failed_at timestamptz not null default now(),
+  primary key (file_id, client_key)
+);
+
+alter table public.share_password_attempts enable row level security;
+
+-- Password-protected rows must not leak their signed URL to other users.
+create policy "Protected shares are visible to their owner only"
+  on public.file_metadata
+  as restrictive
+  for select
+  using (not password_protected or auth.uid() = user_id);
+
+create or replace function public.set_share_password(p_file_id uuid, p_password text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not exists (select 1 from public.file_metadata where id = p_file_id and user_id = auth.uid()) then
+    raise exception 'File not found' using errcode = 'no_data_found';
+  end if;
+
+  if p_password is null or p_password = '' then
+    delete from public.share_passwords where file_id = p_file_id;
+    update public.file_metadata set password_protected = false where id = p_file_id;
+  else
+    insert into public.share_passwords (file_id, password_hash)
+    values (p_file_id, crypt(p_password, gen_salt('bf')))
+    on conflict (file_id) do update
+      set password_hash = excluded.password_hash, updated_at = now();
+    update public.file_metadata set password_protected = true where id = p_file_id;
+  end if;
+
+  -- A new password starts everyone with a clean slate.
+  delete from public.share_password_attempts where file_id = p_file_id;
+end;
+$$;
+
+revoke execute on function public.set_share_password(uuid, text) from public, anon;
+grant execute on function public.set_share_password(uuid, text) to authenticated;
+
+-- Checks a password and records the outcome under a row lock, so
+-- parallel guesses cannot slip past the lockout. Besides each client's own
+-- limit, failures from all clients together lock the share, so a caller who
+-- changes address gains nothing. Returns { ok, attempts_left, locked_until }.
+create or replace function public.check_share_password(
+  p_file_id uuid,
+  p_client_key text,
+  p_password text,
+  p_max_attempts integer default 5,
+  p_lockout interval default interval '15 minutes',
+  p_max_file_attempts integer default 50
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash text;
+  v_attempt public.share_password_attempts;
+  v_recent_failures integer;
+  v_last_failed_at timestamptz;
+begin
+  -- Locks the share, so checks from different clients cannot race the
+  -- limit across all of them.
+  select password_hash into v_hash from public.share_passwords where file_id = p_file_id for update;
+  if v_hash is null then
+    return jsonb_build_object('ok', true);
+  end if;
+
+  select coalesce(sum(failed_count), 0), max(last_failed_at)
+  into v_recent_failures, v_last_failed_at
+  from public.share_password_attempts
+  where file_id = p_file_id and last_failed_at > now() - p_lockout;
+
+  if v_recent_failures >= p_max_file_attempts then
+    return jsonb_build_object('ok', false, 'locked_until', v_last_failed_at + p_lockout, 'attempts_left', 0);
+  end if;
+
+  insert into public.share_password_attempts (file_id, client_key)
+  values (p_file_id, p_client_key)
+  on conflict (file_id, client_key) do nothing;
+
+  select * into v_attempt
+  from public.share_password_attempts
+  where file_id = p_file_id and client_key = p_client_key
+  for update;
+
+  if v_attempt.locked_until is not null and v_attempt.locked_until > now() then
+    return jsonb_build_object('ok', false, 'locked_until', v_attempt.locked_until, 'attempts_left', 0);
+  end if;
+
+  if crypt(p_password, v_hash) = v_hash then
+    delete from public.share_password_attempts
+    where file_id = p_file_id and client_key = p_client_key;
+    return jsonb_build_object('ok', true);
+  end if;
+
+  -- An expired lockout resets the counter.
+  if v_attempt.locked_until is not null then
+    v_attempt.failed_count := 0;
+  end if;
+
+  v_attempt.failed_count := v_attempt.failed_count + 1;
+  v_attempt.locked_until := case
+    when v_attempt.failed_count >= p_max_attempts then now() + p_lockout
+  end;
+
+  update public.share_password_attempts
+  set failed_count = v_attempt.failed_count,
+      locked_until = v_attempt.locked_until,
+      last_failed_at = now()
+  where file_id = p_file_id and client_key = p_client_key;
+
+  return jsonb_build_object(
+    'ok', false,
+    'locked_until', v_attempt.locked_until,
+    'attempts_left', greatest(p_max_attempts - v_attempt.failed_count, 0)
+  );
+end;
+$$;
+
+revoke execute on function public.check_share_password(uuid, text, text, integer, interval, integer) from public, anon, authenticated;
+grant execute on function public.check_share_password(uuid, text, text, integer, interval, integer) to service_role;
@@ -0,0 +1,17 @@
+-- Share links now resolve through the resolve-share edge function, which
+-- mints a short-lived signed URL per download. The stored year-long URLs were
+-- the actual credential, so they go away. URLs already handed out stay valid
+-- until their own expiry; rotate the project's JWT secret to kill them early.
+alter table public.file_metadata drop column share_url;
+
+-- Lets an owner switch sharing off without deleting the file.
+alter table public.file_metadata add column share_revoked_at timestamptz;
+
+-- Recipients never read file_metadata directly any more; only owners do.
+drop policy "Protected shares are visible to their owner only" on public.file_metadata;
+
+create policy "File metadata is visible to its owner only"
+  on public.file_metadata
+  as restrictive
+  for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,60 @@
+-- Share lookups for the resolve-share function. Expired or revoked shares
+-- never come back from get_shared_file; share_expired_at lets the resolver
+-- tell recipients a link has expired rather than that it never existed.
+create or replace function public.get_shared_file(p_file_id uuid)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.file_metadata
+  where id = p_file_id
+    and share_revoked_at is null
+    and (expires_at is null or expires_at > now());
+$$;
+
+create or replace function public.share_expired_at(p_file_id uuid)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select expires_at
+  from public.file_metadata
+  where id = p_file_id and expires_at <= now();
+$$;
+
+revoke execute on function public.get_shared_file(uuid) from public, anon, authenticated;
+revoke execute on function public.share_expired_at(uuid) from public, anon, authenticated;
+grant execute on function public.get_shared_file(uuid) to service_role;
+grant execute on function public.share_expired_at(uuid) to service_role;
+
+create index file_metadata_expires_at_idx
+  on public.file_metadata (expires_at)
+  where expires_at is not null;
+
+-- Hourly cleanup through the cleanup-expired edge function: storage objects
+-- can only be removed through the Storage API, not by deleting rows in SQL.
+-- Expects the project URL and service role key in Vault as 'project_url' and
+-- 'service_role_key'.
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+select cron.schedule(
+  'cleanup-expired-shares',
+  '15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/cleanup-expired',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,24 @@
+-- Optional cap on downloads per share; 1 makes a burn-after-first-download link.
+alter table public.file_metadata
+  add column max_downloads integer check (max_downloads > 0),
+  add column download_count integer not null default 0 check (download_count >= 0);
+
+-- Counts a download if the share still has one left. The conditional update
+-- is a single row-locked statement, so concurrent downloads cannot overshoot
+-- the limit. Returns the new count, or null once the limit is used up.
+create or replace function public.consume_share_download(p_file_id uuid)
+returns integer
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  update public.file_metadata
+  set download_count = download_count + 1
+  where id = p_file_id
+    and (max_downloads is null or download_count < max_downloads)
+  returning download_count;
+$$;
+
+revoke execute on function public.consume_share_download(uuid) from public, anon, authenticated;
+grant execute on function public.consume_share_download(uuid) to service_role;
@@ -0,0 +1,24 @@
+-- View and download events on shared files. Only coarse data is kept: the
+-- browser/OS family and the referring origin; no IP addresses.
+create table public.share_events (
+  id bigint generated always as identity primary key,
+  file_id uuid not null references public.file_metadata (id) on delete cascade,
+  event_type text not null check (event_type in ('view', 'download')),
+  occurred_at timestamptz not null default now(),
+  user_agent text,
+  referrer text
+);
+
+create index share_events_file_occurred_idx on public.share_events (file_id, occurred_at);
+
+alter table public.share_events enable row level security;
+
+-- Written only by the resolve-share function (service role); owners read their own.
+create policy "Owners can read events for their files"
+  on public.share_events for select
+  using (
+    exists (
+      select 1 from public.file_metadata m
+      where m.id = share_events.file_id and m.user_id = auth.uid()
+    )
+  );
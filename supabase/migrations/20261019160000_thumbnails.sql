@@ -0,0 +1,98 @@
+-- Small JPEG thumbnails for the dashboard, kept in their own private bucket at
+-- '<storage_path>.jpg'. The generate-thumbnail edge function writes them for
+-- images and PDFs; the uploading browser writes them for videos, which the
+-- edge runtime cannot decode.
+alter table public.file_metadata
+  add column thumbnail_path text;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('thumbnails', 'thumbnails', false, 1048576, array['image/jpeg'])
+on conflict (id) do nothing;
+
+create policy "Owners can read their thumbnails"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Owners can upload their thumbnails"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Owners can delete their thumbnails"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'thumbnails' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- The thumbnail and the metadata row can land in either order: the upload
+-- finishes before the client inserts the row, and the edge function runs
+-- asynchronously. Whichever arrives second links the two.
+create or replace function public.link_thumbnail_to_file()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.file_metadata
+  set thumbnail_path = new.name
+  where storage_path = left(new.name, -length('.jpg'));
+  return new;
+end;
+$$;
+
+create trigger objects_link_thumbnail
+  after insert on storage.objects
+  for each row
+  when (new.bucket_id = 'thumbnails')
+  execute function public.link_thumbnail_to_file();
+
+create or replace function public.attach_existing_thumbnail()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, storage
+as $$
+begin
+  select name into new.thumbnail_path
+  from storage.objects
+  where bucket_id = 'thumbnails' and name = new.storage_path || '.jpg';
+  return new;
+end;
+$$;
+
+create trigger file_metadata_attach_thumbnail
+  before insert on public.file_metadata
+  for each row execute function public.attach_existing_thumbnail();
+
+-- Every finished upload is handed to generate-thumbnail, which skips types it
+-- cannot render. Uses the same Vault secrets as the cleanup job.
+create or replace function public.request_thumbnail()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  perform net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/generate-thumbnail',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := jsonb_build_object(
+      'storagePath', new.name,
+      'mimeType', new.metadata ->> 'mimetype',
+      'size', (new.metadata ->> 'size')::bigint
+    )
+  );
+  return new;
+end;
+$$;
+
+create trigger objects_request_thumbnail
+  after insert on storage.objects
+  for each row
+  when (new.bucket_id = 'file_uploads')
+  execute function public.request_thumbnail();
@@ -0,0 +1,10 @@
+-- Substring search on file names ("ilike '%term%'") needs a trigram index;
+-- a btree cannot serve a leading wildcard.
+create extension if not exists pg_trgm with schema extensions;
+
+create index file_metadata_original_name_trgm_idx
+  on public.file_metadata using gin (original_name extensions.gin_trgm_ops);
+
+-- Listing and sorting always happen within one user's files.
+create index file_metadata_user_upload_date_idx
+  on public.file_metadata (user_id, upload_date desc);
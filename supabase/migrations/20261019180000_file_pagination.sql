@@ -0,0 +1,12 @@
+-- Keyset pagination orders by (sort column, id); with id in the index each
+-- page is a single index range scan instead of a sort over all of a user's files.
+drop index if exists public.file_metadata_user_upload_date_idx;
+
+create index file_metadata_user_upload_date_id_idx
+  on public.file_metadata (user_id, upload_date desc, id desc);
+
+create index file_metadata_user_name_id_idx
+  on public.file_metadata (user_id, original_name, id);
+
+create index file_metadata_user_size_id_idx
+  on public.file_metadata (user_id, size, id);
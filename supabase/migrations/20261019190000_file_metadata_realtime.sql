@@ -0,0 +1,4 @@
+-- Stream file_metadata changes to open dashboards. Realtime applies RLS to
+-- inserts and updates, so subscribers only receive their own rows; deletes
+-- carry nothing but the primary key under the default replica identity.
+alter publication supabase_realtime add table public.file_metadata;
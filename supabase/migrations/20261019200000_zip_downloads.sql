@@ -0,0 +1,15 @@
+-- One-time tickets for ZIP downloads. The zip-files function checks access
+-- when a ticket is issued; the archive itself is then fetched with a plain
+-- GET so the browser streams it to disk instead of holding it in memory.
+create table public.zip_downloads (
+  id uuid primary key default gen_random_uuid(),
+  archive_name text not null,
+  -- [{ "storage_path", "name", "size", "upload_date" }], names already de-duplicated
+  entries jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '2 minutes',
+  redeemed_at timestamptz
+);
+
+-- Service role only: no policies.
+alter table public.zip_downloads enable row level security;
@@ -0,0 +1,227 @@
+-- Collections share several files under one link (/s/:collectionId), with
+-- their own expiry and password. A file's own share settings do not apply
+-- inside a collection, except that files whose link has expired, been
+-- revoked or used up its downloads are left out.
+create table public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(btrim(name)) > 0),
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  password_protected boolean not null default false
+);
+
+create index collections_user_created_idx on public.collections (user_id, created_at desc);
+
+alter table public.collections enable row level security;
+
+create policy "Users manage their own collections"
+  on public.collections for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table public.collection_files (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  file_id uuid not null references public.file_metadata (id) on delete cascade,
+  position integer not null default 0,
+  added_at timestamptz not null default now(),
+  primary key (collection_id, file_id)
+);
+
+create index collection_files_file_id_idx on public.collection_files (file_id);
+
+alter table public.collection_files enable row level security;
+
+-- Both sides must belong to the caller.
+create policy "Users manage files in their own collections"
+  on public.collection_files for all
+  using (
+    exists (select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid())
+  )
+  with check (
+    exists (select 1 from public.collections c where c.id = collection_id and c.user_id = auth.uid())
+    and exists (select 1 from public.file_metadata m where m.id = file_id and m.user_id = auth.uid())
+  );
+
+-- Same scheme as share_passwords: hashes and attempts are reachable only
+-- through the security definer functions below.
+create table public.collection_passwords (
+  collection_id uuid primary key references public.collections (id) on delete cascade,
+  password_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.collection_passwords enable row level security;
+
+create table public.collection_password_attempts (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  client_key text not null,
+  failed_count integer not null default 0,
+  locked_until timestamptz,
+  last_failed_at timestamptz not null default now(),
+  primary key (collection_id, client_key)
+);
+
+alter table public.collection_password_attempts enable row level security;
+
+create or replace function public.set_collection_password(p_collection_id uuid, p_password text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+begin
+  if not exists (select 1 from public.collections where id = p_collection_id and user_id = auth.uid()) then
+    raise exception 'Collection not found' using errcode = 'no_data_found';
+  end if;
+
+  if p_password is null or p_password = '' then
+    delete from public.collection_passwords where collection_id = p_collection_id;
+    update public.collections set password_protected = false where id = p_collection_id;
+  else
+    insert into public.collection_passwords (collection_id, password_hash)
+    values (p_collection_id, crypt(p_password, gen_salt('bf')))
+    on conflict (collection_id) do update
+      set password_hash = excluded.password_hash, updated_at = now();
+    update public.collections set password_protected = true where id = p_collection_id;
+  end if;
+
+  delete from public.collection_password_attempts where collection_id = p_collection_id;
+end;
+$$;
+
+revoke execute on function public.set_collection_password(uuid, text) from public, anon;
+grant execute on function public.set_collection_password(uuid, text) to authenticated;
+
+-- Mirrors check_share_password. Returns { ok, attempts_left, locked_until }.
+create or replace function public.check_collection_password(
+  p_collection_id uuid,
+  p_client_key text,
+  p_password text,
+  p_max_attempts integer default 5,
+  p_lockout interval default interval '15 minutes',
+  p_max_collection_attempts integer default 50
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_hash text;
+  v_attempt public.collection_password_attempts;
+  v_recent_failures integer;
+  v_last_failed_at timestamptz;
+begin
+  select password_hash into v_hash
+  from public.collection_passwords
+  where collection_id = p_collection_id
+  for update;
+  if v_hash is null then
+    return jsonb_build_object('ok', true);
+  end if;
+
+  select coalesce(sum(failed_count), 0), max(last_failed_at)
+  into v_recent_failures, v_last_failed_at
+  from public.collection_password_attempts
+  where collection_id = p_collection_id and last_failed_at > now() - p_lockout;
+
+  if v_recent_failures >= p_max_collection_attempts then
+    return jsonb_build_object('ok', false, 'locked_until', v_last_failed_at + p_lockout, 'attempts_left', 0);
+  end if;
+
+  insert into public.collection_password_attempts (collection_id, client_key)
+  values (p_collection_id, p_client_key)
+  on conflict (collection_id, client_key) do nothing;
+
+  select * into v_attempt
+  from public.collection_password_attempts
+  where collection_id = p_collection_id and client_key = p_client_key
+  for update;
+
+  if v_attempt.locked_until is not null and v_attempt.locked_until > now() then
+    return jsonb_build_object('ok', false, 'locked_until', v_attempt.locked_until, 'attempts_left', 0);
+  end if;
+
+  if crypt(p_password, v_hash) = v_hash then
+    delete from public.collection_password_attempts
+    where collection_id = p_collection_id and client_key = p_client_key;
+    return jsonb_build_object('ok', true);
+  end if;
+
+  if v_attempt.locked_until is not null then
+    v_attempt.failed_count := 0;
+  end if;
+
+  v_attempt.failed_count := v_attempt.failed_count + 1;
+  v_attempt.locked_until := case
+    when v_attempt.failed_count >= p_max_attempts then now() + p_lockout
+  end;
+
+  update public.collection_password_attempts
+  set failed_count = v_attempt.failed_count,
+      locked_until = v_attempt.locked_until,
+      last_failed_at = now()
+  where collection_id = p_collection_id and client_key = p_client_key;
+
+  return jsonb_build_object(
+    'ok', false,
+    'locked_until', v_attempt.locked_until,
+    'attempts_left', greatest(p_max_attempts - v_attempt.failed_count, 0)
+  );
+end;
+$$;
+
+revoke execute on function public.check_collection_password(uuid, text, text, integer, interval, integer) from public, anon, authenticated;
+grant execute on function public.check_collection_password(uuid, text, text, integer, interval, integer) to service_role;
+
+-- Lookups for the resolve-collection function, split like get_shared_file /
+-- share_expired_at so recipients can be told a link has expired.
+create or replace function public.get_shared_collection(p_collection_id uuid)
+returns setof public.collections
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select *
+  from public.collections
+  where id = p_collection_id
+    and (expires_at is null or expires_at > now());
+$$;
+
+create or replace function public.collection_expired_at(p_collection_id uuid)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select expires_at
+  from public.collections
+  where id = p_collection_id and expires_at <= now();
+$$;
+
+create or replace function public.get_collection_files(p_collection_id uuid)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.collection_files cf
+  join public.file_metadata m on m.id = cf.file_id
+  where cf.collection_id = p_collection_id
+    and m.share_revoked_at is null
+    and (m.expires_at is null or m.expires_at > now())
+    and (m.max_downloads is null or m.download_count < m.max_downloads)
+  order by cf.position, cf.added_at;
+$$;
+
+revoke execute on function public.get_shared_collection(uuid) from public, anon, authenticated;
+revoke execute on function public.collection_expired_at(uuid) from public, anon, authenticated;
+revoke execute on function public.get_collection_files(uuid) from public, anon, authenticated;
+grant execute on function public.get_shared_collection(uuid) to service_role;
+grant execute on function public.collection_expired_at(uuid) to service_role;
+grant execute on function public.get_collection_files(uuid) to service_role;
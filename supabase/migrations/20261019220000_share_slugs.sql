@@ -0,0 +1,291 @@
+-- Share URLs carry a random slug instead of the file's primary key. Every slug
+-- ever issued for a file is kept in share_links; at most one per file is
+-- active. Revoking or regenerating a link only touches share_links, so the
+-- file row keeps its id.
+create table public.share_links (
+  id uuid primary key default gen_random_uuid(),
+  file_id uuid not null references public.file_metadata (id) on delete cascade,
+  slug text not null unique,
+  is_custom boolean not null default false,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create unique index share_links_active_file_idx
+  on public.share_links (file_id)
+  where revoked_at is null;
+
+alter table public.share_links enable row level security;
+
+-- Owners can see the links of their files; all writes go through the functions below.
+create policy "Users view links to their own files"
+  on public.share_links for select
+  using (
+    exists (select 1 from public.file_metadata m where m.id = file_id and m.user_id = auth.uid())
+  );
+
+-- Length and alphabet of generated slugs. Single row; change it with an
+-- update. The default is 12 characters from a 57-letter alphabet without
+-- look-alikes (0/O, 1/l/I), about 70 bits.
+create table public.share_slug_settings (
+  id boolean primary key default true check (id),
+  slug_length integer not null default 12 check (slug_length between 8 and 64),
+  alphabet text not null default 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789'
+    check (length(alphabet) between 16 and 256)
+);
+
+insert into public.share_slug_settings default values;
+
+alter table public.share_slug_settings enable row level security;
+
+-- The active slug, mirrored onto the file so listings and realtime events
+-- carry it. Null while the file has no live link.
+alter table public.file_metadata add column share_slug text;
+
+-- Only the functions below change it: owners keep updating the settings the
+-- app edits, but not the slug.
+revoke update on public.file_metadata from anon, authenticated;
+grant update (expires_at, max_downloads, folder_id) on public.file_metadata to authenticated;
+
+create or replace function public.generate_share_slug()
+returns text
+language plpgsql
+volatile
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_settings public.share_slug_settings;
+  v_alphabet_length integer;
+  -- Bytes at or above this limit would favour the first letters; skip them.
+  v_limit integer;
+  v_bytes bytea;
+  v_slug text;
+  v_byte integer;
+begin
+  select * into v_settings from public.share_slug_settings;
+  v_alphabet_length := length(v_settings.alphabet);
+  v_limit := 256 - 256 % v_alphabet_length;
+
+  -- A collision is astronomically unlikely, but cheap to rule out.
+  loop
+    v_slug := '';
+    while length(v_slug) < v_settings.slug_length loop
+      v_bytes := gen_random_bytes(v_settings.slug_length * 2);
+      for i in 0 .. length(v_bytes) - 1 loop
+        v_byte := get_byte(v_bytes, i);
+        if v_byte < v_limit then
+          v_slug := v_slug || substr(v_settings.alphabet, v_byte % v_alphabet_length + 1, 1);
+          exit when length(v_slug) = v_settings.slug_length;
+        end if;
+      end loop;
+    end loop;
+
+    exit when not exists (select 1 from public.share_links where slug = v_slug);
+  end loop;
+
+  return v_slug;
+end;
+$$;
+
+-- Revokes the file's active link, if any, and issues a new one: p_slug when
+-- given, otherwise a random slug. Returns the new slug.
+create or replace function public.issue_share_link(p_file_id uuid, p_slug text default null)
+returns text
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_slug text := coalesce(p_slug, public.generate_share_slug());
+begin
+  update public.share_links
+  set revoked_at = now()
+  where file_id = p_file_id and revoked_at is null;
+
+  insert into public.share_links (file_id, slug, is_custom)
+  values (p_file_id, v_slug, p_slug is not null);
+
+  update public.file_metadata set share_slug = v_slug where id = p_file_id;
+
+  return v_slug;
+end;
+$$;
+
+revoke execute on function public.generate_share_slug() from public, anon, authenticated;
+revoke execute on function public.issue_share_link(uuid, text) from public, anon, authenticated;
+
+-- New files are shared right away, as before. The slug is picked before the
+-- insert so the row the client gets back already carries it.
+create or replace function public.assign_initial_share_slug()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.share_slug := public.generate_share_slug();
+  return new;
+end;
+$$;
+
+create or replace function public.record_initial_share_link()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.share_links (file_id, slug) values (new.id, new.share_slug);
+  return null;
+end;
+$$;
+
+create trigger assign_initial_share_slug
+  before insert on public.file_metadata
+  for each row execute function public.assign_initial_share_slug();
+
+create trigger record_initial_share_link
+  after insert on public.file_metadata
+  for each row execute function public.record_initial_share_link();
+
+-- Owner actions.
+create or replace function public.regenerate_share_link(p_file_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.file_metadata where id = p_file_id and user_id = auth.uid()) then
+    raise exception 'File not found' using errcode = 'no_data_found';
+  end if;
+
+  return public.issue_share_link(p_file_id);
+end;
+$$;
+
+create or replace function public.revoke_share_link(p_file_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.file_metadata where id = p_file_id and user_id = auth.uid()) then
+    raise exception 'File not found' using errcode = 'no_data_found';
+  end if;
+
+  update public.share_links
+  set revoked_at = now()
+  where file_id = p_file_id and revoked_at is null;
+
+  update public.file_metadata set share_slug = null where id = p_file_id;
+end;
+$$;
+
+-- Vanity slugs: lowercase letters, digits and inner hyphens. A slug that was
+-- ever issued, even if since revoked, is not handed out again.
+create or replace function public.set_custom_share_slug(p_file_id uuid, p_slug text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.file_metadata where id = p_file_id and user_id = auth.uid()) then
+    raise exception 'File not found' using errcode = 'no_data_found';
+  end if;
+
+  if p_slug !~ '^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$' then
+    raise exception 'Invalid slug' using errcode = 'check_violation';
+  end if;
+
+  -- Unchanged: keep the link as it is.
+  if exists (
+    select 1 from public.share_links
+    where file_id = p_file_id and slug = p_slug and revoked_at is null
+  ) then
+    return p_slug;
+  end if;
+
+  return public.issue_share_link(p_file_id, p_slug);
+end;
+$$;
+
+revoke execute on function public.regenerate_share_link(uuid) from public, anon;
+revoke execute on function public.revoke_share_link(uuid) from public, anon;
+revoke execute on function public.set_custom_share_slug(uuid, text) from public, anon;
+grant execute on function public.regenerate_share_link(uuid) to authenticated;
+grant execute on function public.revoke_share_link(uuid) to authenticated;
+grant execute on function public.set_custom_share_slug(uuid, text) to authenticated;
+
+-- Existing shares keep their /share/<id> URL: the file's id becomes its
+-- first slug. Revoked ones stay without a link.
+insert into public.share_links (file_id, slug)
+select id, id::text
+from public.file_metadata
+where share_revoked_at is null;
+
+update public.file_metadata
+set share_slug = id::text
+where share_revoked_at is null;
+
+-- Shares are looked up by slug from now on.
+drop function public.get_shared_file(uuid);
+drop function public.share_expired_at(uuid);
+
+alter table public.file_metadata drop column share_revoked_at;
+
+create or replace function public.get_collection_files(p_collection_id uuid)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.collection_files cf
+  join public.file_metadata m on m.id = cf.file_id
+  where cf.collection_id = p_collection_id
+    and exists (select 1 from public.share_links l where l.file_id = m.id and l.revoked_at is null)
+    and (m.expires_at is null or m.expires_at > now())
+    and (m.max_downloads is null or m.download_count < m.max_downloads)
+  order by cf.position, cf.added_at;
+$$;
+
+create or replace function public.get_shared_file(p_slug text)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.share_links l
+  join public.file_metadata m on m.id = l.file_id
+  where l.slug = p_slug
+    and l.revoked_at is null
+    and (m.expires_at is null or m.expires_at > now());
+$$;
+
+create or replace function public.share_expired_at(p_slug text)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.expires_at
+  from public.share_links l
+  join public.file_metadata m on m.id = l.file_id
+  where l.slug = p_slug
+    and l.revoked_at is null
+    and m.expires_at <= now();
+$$;
+
+revoke execute on function public.get_shared_file(text) from public, anon, authenticated;
+revoke execute on function public.share_expired_at(text) from public, anon, authenticated;
+grant execute on function public.get_shared_file(text) to service_role;
+grant execute on function public.share_expired_at(text) to service_role;
@@ -0,0 +1,18 @@
+-- Lets the resolver tell recipients a link was revoked by its owner rather
+-- than that it never existed. Mirrors share_expired_at.
+create or replace function public.share_revoked_at(p_slug text)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select revoked_at
+  from public.share_links
+  where slug = p_slug and revoked_at is not null;
+$$;
+
+revoke execute on function public.share_revoked_at(text) from public, anon, authenticated;
+grant execute on function public.share_revoked_at(text) to service_role;
+
+create index share_links_file_created_idx on public.share_links (file_id, created_at desc);
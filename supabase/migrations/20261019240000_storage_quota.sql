@@ -0,0 +1,129 @@
+-- Total storage per user. The plan sets the quota; app_metadata.storage_quota
+-- (bytes, set by the service role) overrides it for single users.
+alter table public.plans
+  add column storage_quota bigint not null default 1024 * 1024 * 1024 check (storage_quota > 0);
+
+update public.plans set storage_quota = 1024 * 1024 * 1024 where id = 'free';
+update public.plans set storage_quota = 100 * 1024 * 1024 * 1024::bigint where id = 'pro';
+
+create or replace function public.storage_quota_for_user(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select (u.raw_app_meta_data ->> 'storage_quota')::bigint from auth.users u where u.id = p_user_id),
+    (select storage_quota from public.plan_for_user(p_user_id))
+  );
+$$;
+
+revoke execute on function public.storage_quota_for_user(uuid) from public, anon, authenticated;
+
+-- Bytes a user has in storage, as measured by storage itself: every object
+-- under their folder, including ones that never got a file row.
+create or replace function public.storage_used_by_user(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select coalesce(sum((metadata ->> 'size')::bigint), 0)::bigint
+  from storage.objects
+  where bucket_id = 'file_uploads'
+    and name like p_user_id::text || '/%';
+$$;
+
+revoke execute on function public.storage_used_by_user(uuid) from public, anon, authenticated;
+
+-- Usage of the calling user, in total and per MIME type, for the usage meter
+-- and the client-side check before an upload starts.
+create or replace function public.current_storage_usage()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with usage as (
+    select file_type, sum(size)::bigint as bytes, count(*)::integer as files
+    from public.file_metadata
+    where user_id = auth.uid()
+    group by file_type
+  )
+  select jsonb_build_object(
+    'quota', public.storage_quota_for_user(auth.uid()),
+    'used', public.storage_used_by_user(auth.uid()),
+    'by_type', coalesce(
+      (select jsonb_agg(jsonb_build_object('file_type', file_type, 'bytes', bytes, 'files', files)) from usage),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+revoke execute on function public.current_storage_usage() from public, anon;
+grant execute on function public.current_storage_usage() to authenticated;
+
+-- The check that counts: a file row only goes in if its size is the size of
+-- its stored object and that object fits the quota.
+create or replace function public.enforce_storage_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_quota bigint;
+  v_size bigint;
+begin
+  -- Serialises one user's concurrent uploads so they cannot both squeeze in.
+  perform pg_advisory_xact_lock(hashtextextended(new.user_id::text, 0));
+
+  select (metadata ->> 'size')::bigint into v_size
+  from storage.objects
+  where bucket_id = 'file_uploads' and name = new.storage_path;
+
+  if v_size is distinct from new.size then
+    raise exception 'Size % does not match the stored object %', new.size, new.storage_path
+      using errcode = 'check_violation', hint = 'size_mismatch';
+  end if;
+
+  -- The object is already stored, so it counts towards the usage.
+  v_quota := public.storage_quota_for_user(new.user_id);
+  if public.storage_used_by_user(new.user_id) > v_quota then
+    raise exception 'Storage quota of % bytes exceeded', v_quota
+      using errcode = 'check_violation', hint = 'storage_quota';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger file_metadata_enforce_storage_quota
+  before insert or update of size, storage_path on public.file_metadata
+  for each row execute function public.enforce_storage_quota();
+
+-- Users who are already at their quota cannot start new uploads at all. The
+-- object size is not known at this point, so files that would go over are
+-- caught by the trigger above and removed by the client. Objects left without
+-- a row still count towards the quota.
+create or replace function public.has_free_storage()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.storage_used_by_user(auth.uid()) < public.storage_quota_for_user(auth.uid());
+$$;
+
+revoke execute on function public.has_free_storage() from public, anon;
+grant execute on function public.has_free_storage() to authenticated;
+
+create policy "Uploads need free storage"
+  on storage.objects
+  as restrictive
+  for insert
+  to authenticated
+  with check (bucket_id <> 'file_uploads' or public.has_free_storage());
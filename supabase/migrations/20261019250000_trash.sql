@@ -0,0 +1,63 @@
+-- Deleting a file moves it to the trash first. Trashed files keep their
+-- object and row (and still count towards the storage quota) until they are
+-- restored, deleted for good, or purged by cleanup-expired after the
+-- retention period. Their share links stop resolving at once.
+alter table public.file_metadata add column deleted_at timestamptz;
+
+-- Owners move their own files in and out of the trash.
+grant update (deleted_at) on public.file_metadata to authenticated;
+
+create index file_metadata_user_deleted_at_idx
+  on public.file_metadata (user_id, deleted_at desc)
+  where deleted_at is not null;
+
+create or replace function public.get_shared_file(p_slug text)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.share_links l
+  join public.file_metadata m on m.id = l.file_id
+  where l.slug = p_slug
+    and l.revoked_at is null
+    and m.deleted_at is null
+    and (m.expires_at is null or m.expires_at > now());
+$$;
+
+-- A trashed file's link reads as not found rather than expired.
+create or replace function public.share_expired_at(p_slug text)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.expires_at
+  from public.share_links l
+  join public.file_metadata m on m.id = l.file_id
+  where l.slug = p_slug
+    and l.revoked_at is null
+    and m.deleted_at is null
+    and m.expires_at <= now();
+$$;
+
+create or replace function public.get_collection_files(p_collection_id uuid)
+returns setof public.file_metadata
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.*
+  from public.collection_files cf
+  join public.file_metadata m on m.id = cf.file_id
+  where cf.collection_id = p_collection_id
+    and m.deleted_at is null
+    and exists (select 1 from public.share_links l where l.file_id = m.id and l.revoked_at is null)
+    and (m.expires_at is null or m.expires_at > now())
+    and (m.max_downloads is null or m.download_count < m.max_downloads)
+  order by cf.position, cf.added_at;
+$$;
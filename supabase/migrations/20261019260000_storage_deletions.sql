@@ -0,0 +1,126 @@
+-- Storage objects can only be removed through the Storage API, so a file row
+-- and its objects can never go in one transaction. Instead, deleting a row
+-- queues its objects here in the same transaction, and the edge functions
+-- remove them afterwards. If that fails, the entry stays for the
+-- reconcile-storage job. A row never outlives its object, and an object
+-- never outlives its row without being queued.
+create table public.storage_deletions (
+  id bigint generated always as identity primary key,
+  -- Null for orphaned objects found by reconcile-storage
+  file_id uuid,
+  bucket text not null,
+  path text not null,
+  queued_at timestamptz not null default now(),
+  last_error text
+);
+
+create index storage_deletions_file_id_idx on public.storage_deletions (file_id);
+create index storage_deletions_object_idx on public.storage_deletions (bucket, path);
+
+-- Service role only.
+alter table public.storage_deletions enable row level security;
+
+create or replace function public.queue_storage_deletion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.storage_deletions (file_id, bucket, path)
+  values (old.id, 'file_uploads', old.storage_path);
+
+  if old.thumbnail_path is not null then
+    insert into public.storage_deletions (file_id, bucket, path)
+    values (old.id, 'thumbnails', old.thumbnail_path);
+  end if;
+
+  return null;
+end;
+$$;
+
+-- Covers every way a row goes: single and batch deletes, the trash purge,
+-- and cascades from folders and accounts.
+create trigger queue_storage_deletion
+  after delete on public.file_metadata
+  for each row execute function public.queue_storage_deletion();
+
+-- Lookups for the reconciliation below.
+create index file_metadata_storage_path_idx on public.file_metadata (storage_path);
+create index file_metadata_thumbnail_path_idx
+  on public.file_metadata (thumbnail_path)
+  where thumbnail_path is not null;
+
+-- Rows whose object is gone. Nothing can be served from them, so
+-- reconcile-storage deletes them.
+create or replace function public.find_files_missing_objects(p_limit integer default 500)
+returns table (id uuid)
+language sql
+stable
+security definer
+set search_path = public, storage
+as $$
+  select m.id
+  from public.file_metadata m
+  where not exists (
+    select 1 from storage.objects o
+    where o.bucket_id = 'file_uploads' and o.name = m.storage_path
+  )
+  limit p_limit;
+$$;
+
+-- Queues objects that no row points at. Uploads store the object before the
+-- row, so only objects older than p_min_age count. Returns how many were queued.
+create or replace function public.queue_orphaned_objects(p_min_age interval default interval '1 day')
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_queued integer;
+begin
+  insert into public.storage_deletions (bucket, path)
+  select o.bucket_id, o.name
+  from storage.objects o
+  where o.bucket_id in ('file_uploads', 'thumbnails')
+    and o.created_at < now() - p_min_age
+    and not exists (
+      select 1 from public.file_metadata m
+      where (o.bucket_id = 'file_uploads' and m.storage_path = o.name)
+         or (o.bucket_id = 'thumbnails' and m.thumbnail_path = o.name)
+    )
+    and not exists (
+      select 1 from public.storage_deletions d
+      where d.bucket = o.bucket_id and d.path = o.name
+    );
+
+  get diagnostics v_queued = row_count;
+  return v_queued;
+end;
+$$;
+
+revoke execute on function public.queue_storage_deletion() from public, anon, authenticated;
+revoke execute on function public.find_files_missing_objects(integer) from public, anon, authenticated;
+revoke execute on function public.queue_orphaned_objects(interval) from public, anon, authenticated;
+grant execute on function public.find_files_missing_objects(integer) to service_role;
+grant execute on function public.queue_orphaned_objects(interval) to service_role;
+
+-- Daily, through the reconcile-storage edge function. Same Vault secrets as
+-- the cleanup-expired schedule.
+select cron.schedule(
+  'reconcile-storage',
+  '45 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/reconcile-storage',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
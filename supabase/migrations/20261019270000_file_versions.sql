@@ -0,0 +1,293 @@
+-- Uploading a new version replaces a file's content but keeps its row, and
+-- with it the share link, download count and settings. The content it
+-- replaces moves here. Restoring swaps a version with the current content,
+-- so nothing is ever overwritten. Versions count towards the storage quota.
+alter table public.file_metadata
+  add column version integer not null default 1;
+
+create table public.file_versions (
+  id uuid primary key default gen_random_uuid(),
+  file_id uuid not null references public.file_metadata (id) on delete cascade,
+  version integer not null,
+  storage_path text not null,
+  original_name text not null,
+  file_type text not null,
+  size bigint not null,
+  thumbnail_path text,
+  -- When this content was uploaded, not when it was replaced
+  created_at timestamptz not null,
+  unique (file_id, version)
+);
+
+create index file_versions_storage_path_idx on public.file_versions (storage_path);
+create index file_versions_thumbnail_path_idx
+  on public.file_versions (thumbnail_path)
+  where thumbnail_path is not null;
+
+-- Written only through the functions below.
+alter table public.file_versions enable row level security;
+
+create policy "Owners can read their file versions"
+  on public.file_versions for select
+  to authenticated
+  using (exists (
+    select 1 from public.file_metadata m
+    where m.id = file_versions.file_id and m.user_id = auth.uid()
+  ));
+
+-- Same queue as deleted files, see the storage_deletions migration. Also
+-- covers versions removed along with their file.
+create or replace function public.queue_version_storage_deletion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.storage_deletions (file_id, bucket, path)
+  values (old.file_id, 'file_uploads', old.storage_path);
+
+  if old.thumbnail_path is not null then
+    insert into public.storage_deletions (file_id, bucket, path)
+    values (old.file_id, 'thumbnails', old.thumbnail_path);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger queue_version_storage_deletion
+  after delete on public.file_versions
+  for each row execute function public.queue_version_storage_deletion();
+
+-- Makes the caller's freshly uploaded object the current content of one of
+-- their files. The object must already be in storage under their folder; its
+-- size is taken from storage, not from the client.
+create or replace function public.add_file_version(
+  p_file_id uuid,
+  p_storage_path text,
+  p_original_name text,
+  p_file_type text
+)
+returns public.file_metadata
+language plpgsql
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_file public.file_metadata;
+  v_size bigint;
+begin
+  select * into v_file
+  from public.file_metadata
+  where id = p_file_id and user_id = auth.uid() and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'File not found' using errcode = 'no_data_found';
+  end if;
+
+  select (metadata ->> 'size')::bigint into v_size
+  from storage.objects
+  where bucket_id = 'file_uploads' and name = p_storage_path;
+
+  if split_part(p_storage_path, '/', 1) <> auth.uid()::text
+    or v_size is null
+    or exists (select 1 from public.file_metadata where storage_path = p_storage_path)
+    or exists (select 1 from public.file_versions where storage_path = p_storage_path) then
+    raise exception 'Not a new upload: %', p_storage_path using errcode = 'check_violation';
+  end if;
+
+  insert into public.file_versions
+    (file_id, version, storage_path, original_name, file_type, size, thumbnail_path, created_at)
+  values
+    (v_file.id, v_file.version, v_file.storage_path, v_file.original_name, v_file.file_type,
+     v_file.size, v_file.thumbnail_path, v_file.upload_date);
+
+  -- The quota trigger sees the archived version, so the new size has to fit
+  -- on top of it.
+  update public.file_metadata
+  set storage_path = p_storage_path,
+      original_name = p_original_name,
+      file_type = p_file_type,
+      size = v_size,
+      upload_date = now(),
+      version = (select max(version) from public.file_versions where file_id = p_file_id) + 1,
+      -- Set if the thumbnail arrived first; otherwise objects_link_thumbnail
+      -- fills it in later.
+      thumbnail_path = (
+        select name from storage.objects
+        where bucket_id = 'thumbnails' and name = p_storage_path || '.jpg'
+      )
+  where id = p_file_id
+  returning * into v_file;
+
+  return v_file;
+end;
+$$;
+
+create or replace function public.restore_file_version(p_file_id uuid, p_version integer)
+returns public.file_metadata
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_file public.file_metadata;
+  v_version public.file_versions;
+begin
+  select * into v_file
+  from public.file_metadata
+  where id = p_file_id and user_id = auth.uid() and deleted_at is null
+  for update;
+
+  select * into v_version
+  from public.file_versions
+  where file_id = p_file_id and version = p_version
+  for update;
+
+  if v_file.id is null or v_version.id is null then
+    raise exception 'File version not found' using errcode = 'no_data_found';
+  end if;
+
+  update public.file_versions
+  set version = v_file.version,
+      storage_path = v_file.storage_path,
+      original_name = v_file.original_name,
+      file_type = v_file.file_type,
+      size = v_file.size,
+      thumbnail_path = v_file.thumbnail_path,
+      created_at = v_file.upload_date
+  where id = v_version.id;
+
+  update public.file_metadata
+  set version = v_version.version,
+      storage_path = v_version.storage_path,
+      original_name = v_version.original_name,
+      file_type = v_version.file_type,
+      size = v_version.size,
+      thumbnail_path = v_version.thumbnail_path,
+      upload_date = v_version.created_at
+  where id = p_file_id
+  returning * into v_file;
+
+  return v_file;
+end;
+$$;
+
+revoke execute on function public.queue_version_storage_deletion() from public, anon, authenticated;
+revoke execute on function public.add_file_version(uuid, text, text, text) from public, anon;
+revoke execute on function public.restore_file_version(uuid, integer) from public, anon;
+grant execute on function public.add_file_version(uuid, text, text, text) to authenticated;
+grant execute on function public.restore_file_version(uuid, integer) to authenticated;
+
+-- The shared file only ever exposes its current version; earlier ones are
+-- listed for recipients here.
+create or replace function public.get_shared_file_versions(p_file_id uuid)
+returns setof public.file_versions
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from public.file_versions where file_id = p_file_id order by version desc;
+$$;
+
+revoke execute on function public.get_shared_file_versions(uuid) from public, anon, authenticated;
+grant execute on function public.get_shared_file_versions(uuid) to service_role;
+
+-- Versions are objects under the user's folder, so the quota already counts
+-- them; the usage breakdown by type lists them too.
+create or replace function public.current_storage_usage()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with stored as (
+    select file_type, size, true as is_current
+    from public.file_metadata
+    where user_id = auth.uid()
+    union all
+    select v.file_type, v.size, false
+    from public.file_versions v
+    join public.file_metadata m on m.id = v.file_id
+    where m.user_id = auth.uid()
+  ),
+  usage as (
+    select file_type, sum(size)::bigint as bytes, (count(*) filter (where is_current))::integer as files
+    from stored
+    group by file_type
+  )
+  select jsonb_build_object(
+    'quota', public.storage_quota_for_user(auth.uid()),
+    'used', public.storage_used_by_user(auth.uid()),
+    'by_type', coalesce(
+      (select jsonb_agg(jsonb_build_object('file_type', file_type, 'bytes', bytes, 'files', files)) from usage),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+-- Objects referenced by a version are not orphans.
+create or replace function public.queue_orphaned_objects(p_min_age interval default interval '1 day')
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_queued integer;
+begin
+  insert into public.storage_deletions (bucket, path)
+  select o.bucket_id, o.name
+  from storage.objects o
+  where o.bucket_id in ('file_uploads', 'thumbnails')
+    and o.created_at < now() - p_min_age
+    and not exists (
+      select 1 from public.file_metadata m
+      where (o.bucket_id = 'file_uploads' and m.storage_path = o.name)
+         or (o.bucket_id = 'thumbnails' and m.thumbnail_path = o.name)
+    )
+    and not exists (
+      select 1 from public.file_versions v
+      where (o.bucket_id = 'file_uploads' and v.storage_path = o.name)
+         or (o.bucket_id = 'thumbnails' and v.thumbnail_path = o.name)
+    )
+    and not exists (
+      select 1 from public.storage_deletions d
+      where d.bucket = o.bucket_id and d.path = o.name
+    );
+
+  get diagnostics v_queued = row_count;
+  return v_queued;
+end;
+$$;
+
+-- Versions whose object is gone can never be restored. Deletes them for
+-- reconcile-storage and returns how many there were.
+create or replace function public.delete_versions_missing_objects()
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public, storage
+as $$
+declare
+  v_deleted integer;
+begin
+  delete from public.file_versions v
+  where not exists (
+    select 1 from storage.objects o
+    where o.bucket_id = 'file_uploads' and o.name = v.storage_path
+  );
+
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end;
+$$;
+
+revoke execute on function public.delete_versions_missing_objects() from public, anon, authenticated;
+grant execute on function public.delete_versions_missing_objects() to service_role;
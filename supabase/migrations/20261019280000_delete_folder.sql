@@ -0,0 +1,74 @@
+-- Folders are deleted by the delete-folder edge function, which goes through
+-- the storage deletion queue like delete-file. The browser no longer removes
+-- objects itself, so it no longer needs their paths.
+drop function public.folder_storage_paths(uuid);
+
+-- Nor may it delete folders directly: the cascade would take their files
+-- with them, past the trash. Owners keep every other right.
+drop policy "Users manage their own folders" on public.folders;
+
+create policy "Users view their own folders"
+  on public.folders for select
+  using (auth.uid() = user_id);
+
+create policy "Users create their own folders"
+  on public.folders for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users update their own folders"
+  on public.folders for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Files anywhere under a folder, collected before the cascade removes them
+-- so their queued objects can be processed right away.
+create or replace function public.folder_file_ids(p_folder_id uuid)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with recursive subtree as (
+    select id from public.folders where id = p_folder_id
+    union all
+    select f.id from public.folders f join subtree s on f.parent_id = s.id
+  )
+  select m.id
+  from public.file_metadata m
+  where m.folder_id in (select id from subtree);
+$$;
+
+revoke execute on function public.folder_file_ids(uuid) from public, anon, authenticated;
+grant execute on function public.folder_file_ids(uuid) to service_role;
+
+-- Files under a folder that is about to be deleted move to the root and into
+-- the trash, so they can still be restored. Files that are already in the
+-- trash keep their retention period. Returns how many files moved.
+create or replace function public.trash_folder_files(p_folder_id uuid)
+returns integer
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_moved integer;
+begin
+  with recursive subtree as (
+    select id from public.folders where id = p_folder_id
+    union all
+    select f.id from public.folders f join subtree s on f.parent_id = s.id
+  )
+  update public.file_metadata
+  set folder_id = null,
+      deleted_at = coalesce(deleted_at, now())
+  where folder_id in (select id from subtree);
+
+  get diagnostics v_moved = row_count;
+  return v_moved;
+end;
+$$;
+
+revoke execute on function public.trash_folder_files(uuid) from public, anon, authenticated;
+grant execute on function public.trash_folder_files(uuid) to service_role;
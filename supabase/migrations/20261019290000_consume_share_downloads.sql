@@ -0,0 +1,52 @@
+-- Counts one download for each file of a ZIP of shares, all or nothing: if
+-- any of them is out of downloads, none are counted. A file listed twice
+-- counts twice. Returns the first file without enough downloads left, or null
+-- once all are counted.
+create or replace function public.consume_share_downloads(p_file_ids uuid[])
+returns uuid
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_exhausted uuid;
+begin
+  -- Locks in a fixed order so overlapping batches cannot deadlock.
+  perform 1
+  from public.file_metadata
+  where id = any(p_file_ids)
+  order by id
+  for update;
+
+  select m.id into v_exhausted
+  from (
+    select id, count(*)::integer as downloads
+    from unnest(p_file_ids) as requested (id)
+    group by id
+  ) r
+  join public.file_metadata m on m.id = r.id
+  where m.max_downloads is not null
+    and m.download_count + r.downloads > m.max_downloads
+  order by array_position(p_file_ids, r.id)
+  limit 1;
+
+  if v_exhausted is not null then
+    return v_exhausted;
+  end if;
+
+  update public.file_metadata m
+  set download_count = m.download_count + r.downloads
+  from (
+    select id, count(*)::integer as downloads
+    from unnest(p_file_ids) as requested (id)
+    group by id
+  ) r
+  where m.id = r.id;
+
+  return null;
+end;
+$$;
+
+revoke execute on function public.consume_share_downloads(uuid[]) from public, anon, authenticated;
+grant execute on function public.consume_share_downloads(uuid[]) to service_role;